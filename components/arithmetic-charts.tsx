@@ -0,0 +1,229 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  arithmeticFunctionTables,
+  sampleArithmeticFunctions,
+  type ArithmeticChartPoint,
+} from "@/lib/sieve";
+
+// Points per chart; larger ranges are sampled
+const MAX_CHART_POINTS = 600;
+const CHART_MARGIN = { top: 5, right: 30, left: 20, bottom: 5 };
+
+const formatNumber = (value: unknown) =>
+  typeof value === "number" ? value.toLocaleString() : String(value);
+
+// Σ values as a fraction of their asymptote, e.g. "1.0012"
+const ratio = (actual: number, expected: number) =>
+  expected > 0 ? (actual / expected).toFixed(4) : "–";
+
+interface ArithmeticChartsProps {
+  limit: number;
+}
+
+// φ, σ, μ and Mertens up to the board size, from one linear sieve pass, and
+// the summatory functions against their known asymptotics
+export function ArithmeticCharts({ limit }: ArithmeticChartsProps) {
+  const points = useMemo(
+    () =>
+      sampleArithmeticFunctions(
+        arithmeticFunctionTables(limit),
+        MAX_CHART_POINTS
+      ),
+    [limit]
+  );
+  const last = points[points.length - 1];
+
+  const xAxis = (
+    <XAxis
+      dataKey="n"
+      type="number"
+      domain={[1, limit]}
+      tickFormatter={formatNumber}
+      label={{ value: "n", position: "insideBottomRight", offset: -5 }}
+    />
+  );
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Every n up to {limit.toLocaleString()}, from a single pass of the
+          linear sieve.
+          {points.length < limit &&
+            ` The charts plot one value in every ${Math.ceil(
+              limit / MAX_CHART_POINTS
+            )}.`}
+        </p>
+
+        <div className="border rounded-lg p-4">
+          <h3 className="text-lg font-medium mb-1">
+            Euler&apos;s totient φ(n) and divisor sum σ(n)
+          </h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Primes sit on the edges: φ(p) = p − 1 just below the line y = n,
+            σ(p) = p + 1 just above it.
+          </p>
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={points} margin={CHART_MARGIN}>
+                <CartesianGrid strokeDasharray="3 3" />
+                {xAxis}
+                <YAxis tickFormatter={formatNumber} />
+                <Tooltip formatter={formatNumber} />
+                <Legend />
+                <Scatter
+                  dataKey="totient"
+                  name="φ(n)"
+                  fill="#22c55e"
+                  shape={<Dot />}
+                />
+                <Scatter
+                  dataKey="divisorSum"
+                  name="σ(n)"
+                  fill="#3b82f6"
+                  shape={<Dot />}
+                />
+                <Line
+                  dataKey="n"
+                  name="y = n"
+                  stroke="#94a3b8"
+                  strokeDasharray="5 5"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="border rounded-lg p-4">
+          <h3 className="text-lg font-medium mb-1">
+            Möbius μ(n) and Mertens M(n)
+          </h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            M(n) = μ(1) + … + μ(n) is {last?.mertens ?? 0} at n ={" "}
+            {limit.toLocaleString()}. It stays inside ±√n over any range drawn
+            here, though Odlyzko and te Riele showed it cannot do so forever.
+          </p>
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={points} margin={CHART_MARGIN}>
+                <CartesianGrid strokeDasharray="3 3" />
+                {xAxis}
+                <YAxis />
+                <Tooltip formatter={formatNumber} />
+                <Legend />
+                <Scatter
+                  dataKey="mobius"
+                  name="μ(n)"
+                  fill="#a855f7"
+                  shape={<Dot />}
+                />
+                <Line
+                  dataKey="mertens"
+                  name="M(n)"
+                  stroke="#f97316"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey={(point: ArithmeticChartPoint) => Math.sqrt(point.n)}
+                  name="±√n"
+                  stroke="#94a3b8"
+                  strokeDasharray="5 5"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey={(point: ArithmeticChartPoint) => -Math.sqrt(point.n)}
+                  name="−√n"
+                  legendType="none"
+                  stroke="#94a3b8"
+                  strokeDasharray="5 5"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="border rounded-lg p-4">
+          <h3 className="text-lg font-medium mb-1">Summatory functions</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Σφ(k) against 3n²/π² (ratio{" "}
+            {last ? ratio(last.totientSum, last.totientSumAsymptote) : "–"}) and
+            Σσ(k) against π²n²/12 (ratio{" "}
+            {last
+              ? ratio(last.divisorSumSum, last.divisorSumSumAsymptote)
+              : "–"}
+            ), summed over k ≤ n.
+          </p>
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={points} margin={CHART_MARGIN}>
+                <CartesianGrid strokeDasharray="3 3" />
+                {xAxis}
+                <YAxis tickFormatter={formatNumber} width={80} />
+                <Tooltip formatter={formatNumber} />
+                <Legend />
+                <Line
+                  dataKey="totientSum"
+                  name="Σφ(k)"
+                  stroke="#22c55e"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="totientSumAsymptote"
+                  name="3n²/π²"
+                  stroke="#22c55e"
+                  strokeDasharray="5 5"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="divisorSumSum"
+                  name="Σσ(k)"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="divisorSumSumAsymptote"
+                  name="π²n²/12"
+                  stroke="#3b82f6"
+                  strokeDasharray="5 5"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Small scatter marker; recharts passes the point's centre and fill
+function Dot({ cx, cy, fill }: { cx?: number; cy?: number; fill?: string }) {
+  return <circle cx={cx} cy={cy} r={1.5} fill={fill} />;
+}
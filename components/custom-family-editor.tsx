@@ -0,0 +1,156 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  MAX_EXPRESSION_LENGTH,
+  MAX_FAMILY_NAME_LENGTH,
+  validateCustomFamily,
+  type CustomFamilySource,
+} from "@/lib/sieve";
+
+interface CustomFamilyEditorProps {
+  families: CustomFamilySource[];
+  onAdd: (name: string, expression: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const EXAMPLES = ["isPrime(p + 6) and isPrime(p + 12)", "p ≡ 1 mod 4"];
+
+// Popover for writing prime families as expressions in p and n
+export function CustomFamilyEditor({
+  families,
+  onAdd,
+  onRemove,
+}: CustomFamilyEditorProps) {
+  const [name, setName] = useState("");
+  const [expression, setExpression] = useState("");
+  const [touched, setTouched] = useState(false);
+
+  const issues = useMemo(
+    () => validateCustomFamily(name, expression),
+    [name, expression]
+  );
+  const isValid = !issues.name && !issues.expression;
+
+  const submit = () => {
+    setTouched(true);
+    if (!isValid) return;
+    onAdd(name, expression);
+    setName("");
+    setExpression("");
+    setTouched(false);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Custom families">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-4 space-y-3">
+        <h3 className="font-medium">Custom prime families</h3>
+        <p className="text-xs text-muted-foreground">
+          A prime p joins the family when the expression holds. n is the
+          position of p, so p is the nth prime. Use + − × / ^, mod, comparisons,
+          and/or/not, a ≡ b mod m and isPrime(x).
+        </p>
+
+        <form
+          className="space-y-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            submit();
+          }}
+        >
+          <Input
+            placeholder="Name"
+            aria-label="Family name"
+            maxLength={MAX_FAMILY_NAME_LENGTH}
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+          {touched && issues.name && (
+            <p className="text-xs text-destructive">{issues.name}</p>
+          )}
+
+          <Input
+            placeholder={EXAMPLES[0]}
+            aria-label="Expression"
+            aria-invalid={expression !== "" && !!issues.expression}
+            className="font-mono"
+            maxLength={MAX_EXPRESSION_LENGTH}
+            value={expression}
+            onChange={(event) => setExpression(event.target.value)}
+          />
+          {(touched || expression !== "") && issues.expression && (
+            <div className="text-xs text-destructive space-y-1">
+              <p>{issues.expression.message}</p>
+              {expression !== "" && (
+                <pre className="font-mono whitespace-pre overflow-x-auto">
+                  {expression}
+                  {"\n"}
+                  {" ".repeat(issues.expression.position)}^
+                </pre>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-1">
+              {EXAMPLES.map((example) => (
+                <Button
+                  key={example}
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 font-mono text-xs"
+                  onClick={() => setExpression(example)}
+                >
+                  {example}
+                </Button>
+              ))}
+            </div>
+            <Button type="submit" size="sm" disabled={touched && !isValid}>
+              Add
+            </Button>
+          </div>
+        </form>
+
+        {families.length > 0 && (
+          <ul className="space-y-1 border-t pt-3">
+            {families.map((family) => (
+              <li
+                key={family.id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{family.name}</div>
+                  <div className="text-xs text-muted-foreground font-mono truncate">
+                    {family.expression}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Delete ${family.name}`}
+                  onClick={() => onRemove(family.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
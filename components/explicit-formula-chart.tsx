@@ -0,0 +1,134 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Slider } from "@/components/ui/slider";
+import { explicitFormulaTable, ZETA_ZEROS } from "@/lib/sieve";
+
+// The formula is rebuilt over 2..min(limit, MAX_X) at this many points
+const MAX_X = 500;
+const SAMPLES = 1000;
+const DEFAULT_ZEROS = 10;
+
+interface ExplicitFormulaChartProps {
+  // Primes found so far, in order
+  primes: ArrayLike<number>;
+  limit: number;
+}
+
+// π(x) from the sieve against Riemann's explicit formula with the first K
+// pairs of zeta zeros. Each pair adds one more oscillation, and the smooth
+// curve R(x) gradually turns into the staircase.
+export function ExplicitFormulaChart({
+  primes,
+  limit,
+}: ExplicitFormulaChartProps) {
+  const [zeroCount, setZeroCount] = useState(DEFAULT_ZEROS);
+  const range = Math.max(3, Math.min(limit, MAX_X));
+
+  const xs = useMemo(
+    () =>
+      Array.from(
+        { length: SAMPLES },
+        (_, i) => 2 + ((range - 2) * i) / (SAMPLES - 1)
+      ),
+    [range]
+  );
+  // Every zero count at once, so moving the slider is only a lookup
+  const table = useMemo(() => explicitFormulaTable(xs), [xs]);
+
+  const data = useMemo(() => {
+    const approximation = table[zeroCount];
+    let counted = 0;
+    return xs.map((x, i) => {
+      while (counted < primes.length && primes[counted] <= x) counted++;
+      return {
+        x,
+        actual: counted,
+        smooth: table[0][i],
+        explicit: approximation[i],
+      };
+    });
+  }, [xs, table, zeroCount, primes]);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="font-medium">Zeros used: K = {zeroCount}</span>
+          {zeroCount > 0 && (
+            <span className="text-muted-foreground">
+              up to γ = {ZETA_ZEROS[zeroCount - 1].toFixed(3)}
+            </span>
+          )}
+        </div>
+        <Slider
+          value={[zeroCount]}
+          min={0}
+          max={ZETA_ZEROS.length}
+          step={1}
+          onValueChange={(value) => setZeroCount(value[0])}
+        />
+      </div>
+
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={[2, range]}
+              tickFormatter={(value: number) => value.toFixed(0)}
+            />
+            <YAxis />
+            <Tooltip
+              formatter={(value: number) => value.toFixed(2)}
+              labelFormatter={(x: number) => `x = ${x.toFixed(2)}`}
+            />
+            <Legend />
+            <Line
+              type="stepAfter"
+              dataKey="actual"
+              name="π(x) from the sieve"
+              stroke="#22c55e"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              type="linear"
+              dataKey="smooth"
+              name="R(x), no zeros"
+              stroke="#94a3b8"
+              strokeDasharray="5 5"
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              type="linear"
+              dataKey="explicit"
+              name={`With ${zeroCount} pairs of zeros`}
+              stroke="#f97316"
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
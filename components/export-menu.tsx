@@ -0,0 +1,77 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  boardCsv,
+  boardJson,
+  BOARD_EXPORT_VERSION,
+  type BoardExportContext,
+  type PrimeNumber,
+} from "@/lib/sieve";
+import { downloadFile } from "@/lib/download";
+
+interface ExportMenuProps extends BoardExportContext {
+  numbers: PrimeNumber[];
+}
+
+// Downloads of the board as it stands: a CSV with one row per number, or a
+// JSON document that adds the Prime Distribution stats and chart data
+export function ExportMenu({ numbers, ...context }: ExportMenuProps) {
+  const baseName = `sieve-${numbers.length}-step-${context.step}`;
+
+  const exportCsv = () =>
+    downloadFile(
+      `${baseName}.csv`,
+      new Blob([boardCsv(numbers)], { type: "text/csv" })
+    );
+  const exportJson = () =>
+    downloadFile(
+      `${baseName}.json`,
+      new Blob([JSON.stringify(boardJson(numbers, context), null, 2)], {
+        type: "application/json",
+      })
+    );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Export">
+          <Download className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-2">
+        <div className="px-2 py-1 text-sm font-medium">Export board</div>
+        <Button
+          variant="ghost"
+          className="w-full h-auto justify-start flex-col items-start py-2"
+          onClick={exportCsv}
+        >
+          <span>CSV</span>
+          <span className="text-xs font-normal text-muted-foreground">
+            value, state, families, gap, smallest prime factor
+          </span>
+        </Button>
+        <Button
+          variant="ghost"
+          className="w-full h-auto justify-start flex-col items-start py-2"
+          onClick={exportJson}
+        >
+          <span>JSON</span>
+          <span className="text-xs font-normal text-muted-foreground">
+            The same numbers, plus primeStats and chartData
+          </span>
+        </Button>
+        <p className="px-2 pt-1 text-xs text-muted-foreground">
+          Format version {BOARD_EXPORT_VERSION}. Gaps count back to the previous
+          prime found so far.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { Filter } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { familyColour } from "@/lib/cell-palette";
+import {
+  describeFamilyFilter,
+  EMPTY_FAMILY_FILTER,
+  isFamilyFilterActive,
+  type FamilyFilter,
+  type PrimeFamily,
+  type PrimeFamilyDefinition,
+} from "@/lib/sieve";
+
+type FamilyMode = "off" | "include" | "exclude";
+
+const MODE_LABELS: Record<FamilyMode, string> = {
+  off: "Off",
+  include: "In",
+  exclude: "Not",
+};
+
+interface FamilyFilterPickerProps {
+  families: PrimeFamilyDefinition[];
+  filter: FamilyFilter;
+  onFilterChange: (filter: FamilyFilter) => void;
+}
+
+// Pick any number of families to highlight, combined with AND/OR, and
+// families to leave out with NOT
+export function FamilyFilterPicker({
+  families,
+  filter,
+  onFilterChange,
+}: FamilyFilterPickerProps) {
+  const label = (id: PrimeFamily) =>
+    families.find((family) => family.id === id)?.shortLabel ?? id;
+
+  const modeOf = (id: PrimeFamily): FamilyMode =>
+    filter.include.includes(id)
+      ? "include"
+      : filter.exclude.includes(id)
+      ? "exclude"
+      : "off";
+
+  const setMode = (id: PrimeFamily, mode: FamilyMode) => {
+    const include = filter.include.filter((family) => family !== id);
+    const exclude = filter.exclude.filter((family) => family !== id);
+    if (mode === "include") include.push(id);
+    if (mode === "exclude") exclude.push(id);
+    onFilterChange({ ...filter, include, exclude });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-[240px] justify-start gap-2">
+          <Filter className="h-4 w-4 shrink-0" />
+          <span className="truncate">
+            {isFamilyFilterActive(filter)
+              ? describeFamilyFilter(filter, label)
+              : "All Primes"}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex rounded-md border p-0.5">
+            {(["or", "and"] as const).map((combinator) => (
+              <Button
+                key={combinator}
+                variant={
+                  filter.combinator === combinator ? "secondary" : "ghost"
+                }
+                size="sm"
+                className="h-7"
+                onClick={() => onFilterChange({ ...filter, combinator })}
+              >
+                {combinator === "or" ? "Any (OR)" : "All (AND)"}
+              </Button>
+            ))}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onFilterChange(EMPTY_FAMILY_FILTER)}
+            disabled={!isFamilyFilterActive(filter)}
+          >
+            Clear
+          </Button>
+        </div>
+
+        <ul className="max-h-72 overflow-y-auto space-y-1 pr-1">
+          {families.map((family) => {
+            const mode = modeOf(family.id);
+            return (
+              <li
+                key={family.id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <span
+                    className="h-3 w-3 shrink-0 rounded-sm border"
+                    style={{
+                      backgroundColor:
+                        mode === "include"
+                          ? familyColour(filter, family.id)
+                          : undefined,
+                    }}
+                  />
+                  <span className="truncate" title={family.description}>
+                    {family.label}
+                  </span>
+                </span>
+                <span className="flex shrink-0">
+                  {(["off", "include", "exclude"] as const).map((option) => (
+                    <Button
+                      key={option}
+                      variant={mode === option ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setMode(family.id, option)}
+                    >
+                      {MODE_LABELS[option]}
+                    </Button>
+                  ))}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  goldbachComet,
+  goldbachPartitions,
+  GOLDBACH_MAX,
+  isGoldbachNumber,
+} from "@/lib/sieve";
+
+// Columns drawn in the comet; larger ranges take every k-th even number
+const MAX_COMET_POINTS = 2000;
+// Partitions listed under the chart
+const MAX_PARTITIONS_SHOWN = 60;
+
+const formatNumber = (value: unknown) =>
+  typeof value === "number" ? value.toLocaleString() : String(value);
+
+interface GoldbachExplorerProps {
+  // Primes found so far, in order
+  primes: ArrayLike<number>;
+  limit: number;
+  selected: number | null;
+  onSelect: (n: number | null) => void;
+  // Number of primes highlighted in the grid, or missing without a grid
+  highlightedCount?: number;
+}
+
+// Goldbach's comet, g(n) for every even n up to the limit, and the prime
+// pairs summing to a chosen even number
+export function GoldbachExplorer({
+  primes,
+  limit,
+  selected,
+  onSelect,
+  highlightedCount,
+}: GoldbachExplorerProps) {
+  const cometLimit = Math.min(limit, GOLDBACH_MAX);
+  const comet = useMemo(
+    () => goldbachComet(primes, cometLimit, MAX_COMET_POINTS),
+    [primes, cometLimit]
+  );
+  // A pick beyond a range that has since shrunk is ignored
+  const active = selected !== null && selected <= cometLimit ? selected : null;
+  const partitions = useMemo(
+    () => (active === null ? [] : goldbachPartitions(primes, active)),
+    [primes, active]
+  );
+
+  // Typed text, kept apart from the selection so partial input can be shown
+  const [draft, setDraft] = useState(selected === null ? "" : `${selected}`);
+  useEffect(() => {
+    if (selected !== null) setDraft(`${selected}`);
+  }, [selected]);
+
+  if (cometLimit < 4) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Goldbach partitions start at 4 = 2 + 2.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Even number:</span>
+        <Input
+          type="number"
+          aria-label="Even number"
+          className="h-10 w-32"
+          min={4}
+          max={cometLimit}
+          step={2}
+          value={draft}
+          onChange={(event) => {
+            setDraft(event.target.value);
+            const value = Number.parseInt(event.target.value, 10);
+            if (isGoldbachNumber(value, cometLimit)) onSelect(value);
+          }}
+        />
+        {selected !== null && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            aria-label="Clear Goldbach selection"
+            onClick={() => {
+              setDraft("");
+              onSelect(null);
+            }}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={comet}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            className="cursor-pointer"
+            onClick={(state) => {
+              if (state?.activeLabel === undefined) return;
+              onSelect(Number(state.activeLabel));
+            }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="n"
+              type="number"
+              domain={[4, cometLimit]}
+              tickFormatter={formatNumber}
+            />
+            <YAxis
+              label={{
+                value: "Partitions g(n)",
+                angle: -90,
+                position: "insideLeft",
+              }}
+            />
+            <Tooltip
+              formatter={formatNumber}
+              labelFormatter={(n) => `n = ${n}`}
+            />
+            {active !== null && (
+              <ReferenceLine x={active} stroke="#f59e0b" strokeWidth={2} />
+            )}
+            <Scatter
+              dataKey="partitions"
+              name="g(n)"
+              fill="#3b82f6"
+              shape={<Dot />}
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Click a column to list its partitions.
+        {comet.length < (cometLimit - 2) / 2 &&
+          ` The comet plots one even number in every ${Math.ceil(
+            (cometLimit - 2) / 2 / MAX_COMET_POINTS
+          )}.`}
+        {limit > GOLDBACH_MAX &&
+          ` Only even numbers up to ${GOLDBACH_MAX.toLocaleString()} are counted.`}
+      </p>
+
+      {active !== null && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="h-3 w-3 rounded-sm border-2 border-amber-500" />
+            {active.toLocaleString()} has {partitions.length} Goldbach{" "}
+            {partitions.length === 1 ? "partition" : "partitions"}
+            {highlightedCount !== undefined &&
+              `, ${highlightedCount} primes highlighted in the grid`}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {partitions.slice(0, MAX_PARTITIONS_SHOWN).map(([p, q]) => (
+              <Badge key={p} variant="outline">
+                {p} + {q}
+              </Badge>
+            ))}
+            {partitions.length > MAX_PARTITIONS_SHOWN && (
+              <span className="text-sm text-muted-foreground">
+                and {partitions.length - MAX_PARTITIONS_SHOWN} more
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Dot({ cx, cy, fill }: { cx?: number; cy?: number; fill?: string }) {
+  return <circle cx={cx} cy={cy} r={1.5} fill={fill} />;
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { ImageDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { downloadFile } from "@/lib/download";
+import { maxPngScale, svgToPng, type SvgImage } from "@/lib/image-export";
+
+// PNG resolutions offered, as multiples of the SVG's size
+const PNG_SCALES = [1, 2, 3, 4];
+
+interface ImageExportMenuProps {
+  // File name without the extension
+  fileName: string;
+  // Draws the image when a download is asked for, or null if there is
+  // nothing to draw yet
+  render: () => SvgImage | null;
+}
+
+// SVG or PNG download of a drawing, for slides and handouts
+export function ImageExportMenu({ fileName, render }: ImageExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+  // Size of the drawing, measured when the menu opens
+  const [preview, setPreview] = useState<SvgImage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const exportSvg = () => {
+    const image = render();
+    if (!image) return;
+    downloadFile(
+      `${fileName}.svg`,
+      new Blob([image.svg], { type: "image/svg+xml" })
+    );
+  };
+
+  const exportPng = async () => {
+    const image = render();
+    if (!image) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const blob = await svgToPng(image, Math.min(scale, maxPngScale(image)));
+      downloadFile(`${fileName}.png`, blob);
+    } catch (reason) {
+      setError(
+        reason instanceof Error ? reason.message : "The PNG export failed"
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) {
+          setPreview(render());
+          setError(null);
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1">
+          <ImageDown className="h-4 w-4" />
+          <span>Image</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-3 space-y-3">
+        <div className="text-sm font-medium">Export image</div>
+        {preview === null ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing to export yet.
+          </p>
+        ) : (
+          <>
+            <Button
+              variant="outline"
+              className="w-full justify-start"
+              onClick={exportSvg}
+            >
+              SVG, vector ({preview.width} × {preview.height})
+            </Button>
+            <div className="flex items-center gap-2">
+              <Select
+                value={String(scale)}
+                onValueChange={(value) => setScale(Number(value))}
+              >
+                <SelectTrigger className="flex-1" aria-label="PNG resolution">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PNG_SCALES.filter(
+                    (option) => option === 1 || option <= maxPngScale(preview)
+                  ).map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option}× ({Math.round(preview.width * option)} ×{" "}
+                      {Math.round(preview.height * option)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={exportPng} disabled={busy}>
+                PNG
+              </Button>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import { useMemo } from "react";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  distinctPrimeFactors,
+  divisors,
+  divisorSum,
+  factorTree,
+  formatFactorisation,
+  mobius,
+  nextPrime,
+  previousPrime,
+  primeFactorisation,
+  totalPrimeFactors,
+  totient,
+  type FactorTreeNode,
+  type PrimeFamily,
+  type PrimeNumber,
+} from "@/lib/sieve";
+
+// Longer divisor lists are cut short
+const MAX_DIVISORS_SHOWN = 48;
+const TREE_COLUMN = 44;
+const TREE_ROW = 40;
+
+interface PlacedNode {
+  value: number;
+  x: number;
+  y: number;
+  isLeaf: boolean;
+  parent?: { x: number; y: number };
+}
+
+// Leaves sit in consecutive columns, parents centred over their children
+function layoutFactorTree(root: FactorTreeNode) {
+  const placed: PlacedNode[] = [];
+  let leaves = 0;
+  let depth = 0;
+
+  const place = (node: FactorTreeNode, level: number): PlacedNode => {
+    depth = Math.max(depth, level);
+    const y = level * TREE_ROW + TREE_ROW / 2;
+    if (!node.children) {
+      const leaf = {
+        value: node.value,
+        x: leaves++ * TREE_COLUMN + TREE_COLUMN / 2,
+        y,
+        isLeaf: true,
+      };
+      placed.push(leaf);
+      return leaf;
+    }
+    const [left, right] = node.children.map((child) => place(child, level + 1));
+    const parent = {
+      value: node.value,
+      x: (left.x + right.x) / 2,
+      y,
+      isLeaf: false,
+    };
+    left.parent = right.parent = parent;
+    placed.push(parent);
+    return parent;
+  };
+
+  place(root, 0);
+  return {
+    nodes: placed,
+    width: leaves * TREE_COLUMN,
+    height: (depth + 1) * TREE_ROW,
+  };
+}
+
+// Splits into the smallest prime factor and the cofactor, primes in green
+function FactorTreeDiagram({ value }: { value: number }) {
+  const { nodes, width, height } = useMemo(
+    () => layoutFactorTree(factorTree(value)),
+    [value]
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        width={Math.max(width, TREE_COLUMN * 2)}
+        height={height}
+        className="mx-auto block text-xs"
+        role="img"
+        aria-label={`Factor tree of ${value}`}
+      >
+        {nodes.map(
+          (node, i) =>
+            node.parent && (
+              <line
+                key={`edge-${i}`}
+                x1={node.parent.x}
+                y1={node.parent.y + 7}
+                x2={node.x}
+                y2={node.y - 9}
+                className="stroke-muted-foreground"
+              />
+            )
+        )}
+        {nodes.map((node, i) => (
+          <text
+            key={`node-${i}`}
+            x={node.x}
+            y={node.y}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            className={
+              node.isLeaf && node.value > 1
+                ? "fill-green-700 dark:fill-green-300 font-semibold"
+                : "fill-foreground"
+            }
+          >
+            {node.value}
+          </text>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+interface NumberInspectorProps {
+  number: PrimeNumber;
+  // Largest number on the board; primes past it cannot be inspected
+  limit: number;
+  // Step that first crossed the number out, and what happened in it
+  crossedOutAt?: number;
+  crossedOutStep?: string;
+  familyLabel: (family: PrimeFamily) => string;
+  onInspect: (value: number) => void;
+  onGoToStep: (step: number) => void;
+  onClose: () => void;
+}
+
+// Side panel with everything about one number: its factorisation and factor
+// tree, divisors, the classic arithmetic functions, neighbouring primes and
+// where the sieve crossed it out
+export function NumberInspector({
+  number,
+  limit,
+  crossedOutAt,
+  crossedOutStep,
+  familyLabel,
+  onInspect,
+  onGoToStep,
+  onClose,
+}: NumberInspectorProps) {
+  const { value } = number;
+  const facts = useMemo(() => {
+    const factors = primeFactorisation(value);
+    return {
+      factorisation: formatFactorisation(factors),
+      divisors: divisors(value),
+      functions: [
+        { symbol: "σ(n)", value: divisorSum(value), hint: "sum of divisors" },
+        {
+          symbol: "φ(n)",
+          value: totient(value),
+          hint: "coprime to n, up to n",
+        },
+        { symbol: "μ(n)", value: mobius(value), hint: "Möbius function" },
+        {
+          symbol: "ω(n)",
+          value: distinctPrimeFactors(value),
+          hint: "distinct prime factors",
+        },
+        {
+          symbol: "Ω(n)",
+          value: totalPrimeFactors(value),
+          hint: "prime factors with multiplicity",
+        },
+      ],
+      previous: previousPrime(value),
+      next: nextPrime(value),
+    };
+  }, [value]);
+  const hiddenDivisors = facts.divisors.length - MAX_DIVISORS_SHOWN;
+
+  return (
+    <Card className="w-full">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-2xl font-semibold">{value}</div>
+          <div className="flex items-center gap-1">
+            <Badge
+              variant={
+                number.state === "prime"
+                  ? "default"
+                  : number.state === "composite"
+                  ? "destructive"
+                  : "outline"
+              }
+              className="text-xs"
+            >
+              {number.state === "prime"
+                ? "Prime"
+                : number.state === "composite"
+                ? "Composite"
+                : "Unmarked"}
+            </Badge>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Close inspector"
+              onClick={onClose}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-sm text-muted-foreground">Factorisation</div>
+          <div className="font-mono">
+            {value === 1
+              ? "1 has no prime factors"
+              : `${value} = ${facts.factorisation}`}
+          </div>
+          {value > 1 && <FactorTreeDiagram value={value} />}
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-sm text-muted-foreground">
+            Divisors ({facts.divisors.length})
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {facts.divisors.slice(0, MAX_DIVISORS_SHOWN).map((divisor) => (
+              <Badge key={divisor} variant="outline" className="text-xs">
+                {divisor}
+              </Badge>
+            ))}
+            {hiddenDivisors > 0 && (
+              <span className="text-xs text-muted-foreground self-center">
+                and {hiddenDivisors} more
+              </span>
+            )}
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-[auto_auto_1fr] gap-x-3 gap-y-1 text-sm">
+          {facts.functions.map((fn) => (
+            <div key={fn.symbol} className="contents">
+              <dt className="font-mono">{fn.symbol}</dt>
+              <dd className="font-semibold text-right">
+                {fn.value.toLocaleString()}
+              </dd>
+              <dd className="text-xs text-muted-foreground self-center">
+                {fn.hint}
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <Button
+            variant="outline"
+            size="sm"
+            aria-label="Previous prime"
+            disabled={facts.previous === null}
+            onClick={() => facts.previous && onInspect(facts.previous)}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            {facts.previous ?? "none"}
+          </Button>
+          <span className="text-muted-foreground">Neighbouring primes</span>
+          <Button
+            variant="outline"
+            size="sm"
+            aria-label="Next prime"
+            disabled={facts.next > limit}
+            title={facts.next > limit ? "Past the end of the board" : undefined}
+            onClick={() => onInspect(facts.next)}
+          >
+            {facts.next}
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+
+        {number.gap && number.state === "prime" && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              Gap from previous prime:
+            </span>
+            <span>{number.gap}</span>
+          </div>
+        )}
+
+        {crossedOutAt !== undefined && (
+          <div className="space-y-1 text-sm">
+            <div className="text-muted-foreground">First crossed out</div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full h-auto whitespace-normal text-xs"
+              onClick={() => onGoToStep(crossedOutAt)}
+            >
+              Step {crossedOutAt}
+              {crossedOutStep && `: ${crossedOutStep}`}
+            </Button>
+          </div>
+        )}
+
+        {number.families.length > 0 && (
+          <div className="text-sm">
+            <div className="text-muted-foreground mb-1">Special families:</div>
+            <div className="flex flex-wrap gap-1">
+              {number.families.map((family) => (
+                <Badge key={family} variant="secondary" className="text-xs">
+                  {familyLabel(family)}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Brush,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ImageExportMenu } from "@/components/image-export-menu";
+import { Switch } from "@/components/ui/switch";
+import { useIsDark } from "@/hooks/use-is-dark";
+import { chartSvg } from "@/lib/image-export";
+import type { ChartPoint } from "@/lib/sieve";
+
+const CHART_MARGIN = { top: 5, right: 30, left: 20, bottom: 5 };
+// The brush on the error panel also zooms the main panel
+const SYNC_ID = "prime-counting";
+
+const SERIES = [
+  { key: "estimated", label: "n/ln(n)", colour: "#3b82f6" },
+  { key: "li", label: "li(n)", colour: "#a855f7" },
+  { key: "riemann", label: "R(n)", colour: "#f97316" },
+] as const;
+
+const ACTUAL_COLOUR = "#22c55e";
+
+const formatValue = (value: unknown) =>
+  typeof value === "number" ? value.toLocaleString() : String(value);
+
+interface PrimeCountingChartProps {
+  data: ChartPoint[];
+}
+
+// π(n) against n/ln n, li(n) and Riemann's R(n), with a second panel for
+// π(n) minus each of them. A point is taken either side of every prime where
+// the board is small enough, so the steps of π(n) show when zoomed in.
+export function PrimeCountingChart({ data }: PrimeCountingChartProps) {
+  const [logScale, setLogScale] = useState(false);
+  const scale = logScale ? "log" : "linear";
+  const isDark = useIsDark();
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const renderImage = () => {
+    const surface = chartRef.current?.querySelector<SVGSVGElement>(
+      "svg.recharts-surface"
+    );
+    if (!surface) return null;
+    return chartSvg(surface, {
+      title: "π(n) against n/ln(n), li(n) and R(n)",
+      dark: isDark,
+      series: [{ label: "π(n)", colour: ACTUAL_COLOUR }, ...SERIES],
+    });
+  };
+
+  const xAxis = (
+    <XAxis
+      dataKey="n"
+      type="number"
+      scale={scale}
+      domain={["dataMin", "dataMax"]}
+      allowDataOverflow
+      tickFormatter={formatValue}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <Switch checked={logScale} onCheckedChange={setLogScale} />
+          Log scale
+        </label>
+        <ImageExportMenu fileName="prime-counting" render={renderImage} />
+      </div>
+
+      <div className="h-[300px]" ref={chartRef}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={CHART_MARGIN} syncId={SYNC_ID}>
+            <CartesianGrid strokeDasharray="3 3" />
+            {xAxis}
+            <YAxis
+              scale={scale}
+              domain={logScale ? [1, "auto"] : [0, "auto"]}
+              allowDataOverflow
+              tickFormatter={formatValue}
+              label={{
+                value: "Count of Primes",
+                angle: -90,
+                position: "insideLeft",
+              }}
+            />
+            <Tooltip
+              formatter={formatValue}
+              labelFormatter={(n) => `n = ${n}`}
+            />
+            <Legend />
+            <Line
+              type="linear"
+              dataKey="actual"
+              name="π(n)"
+              stroke={ACTUAL_COLOUR}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            {SERIES.map((series) => (
+              <Line
+                key={series.key}
+                type="monotone"
+                dataKey={series.key}
+                name={series.label}
+                stroke={series.colour}
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <h4 className="font-medium">Error π(n) − approximation</h4>
+        <p className="text-xs text-muted-foreground">
+          Drag the handles under the chart to zoom into a range.
+        </p>
+      </div>
+      <div className="h-[260px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={CHART_MARGIN} syncId={SYNC_ID}>
+            <CartesianGrid strokeDasharray="3 3" />
+            {xAxis}
+            <YAxis tickFormatter={formatValue} />
+            <Tooltip
+              formatter={(value: number) => value.toFixed(2)}
+              labelFormatter={(n) => `n = ${n}`}
+            />
+            <Legend />
+            <ReferenceLine y={0} stroke="#94a3b8" />
+            {SERIES.map((series) => (
+              <Line
+                key={series.key}
+                type="linear"
+                dataKey={(point: ChartPoint) =>
+                  point.actual - point[series.key]
+                }
+                name={`π(n) − ${series.label}`}
+                stroke={series.colour}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            <Brush dataKey="n" height={24} tickFormatter={formatValue} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { GapAnalysis } from "@/lib/sieve";
+
+// Only the latest champion changes are listed
+const MAX_CHAMPION_CHANGES = 12;
+
+interface PrimeGapAnalysisProps {
+  analysis: GapAnalysis;
+  selectedGap: number | null;
+  // Number of primes highlighted for the selected gap
+  highlightedCount: number;
+  // Missing when there is no grid to highlight pairs in
+  onSelectGap?: (gap: number | null) => void;
+}
+
+// Histogram of gaps between consecutive primes, the record gaps against
+// Cramér's (ln p)² and the most common gap as the range grows
+export function PrimeGapAnalysis({
+  analysis,
+  selectedGap,
+  highlightedCount,
+  onSelectGap,
+}: PrimeGapAnalysisProps) {
+  const { histogram, records, champions } = analysis;
+  const recentChampions = champions.slice(-MAX_CHAMPION_CHANGES).reverse();
+
+  if (histogram.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Gaps appear once at least two primes have been found.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h4 className="font-medium">Gap sizes</h4>
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={histogram}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+              onClick={(state) => {
+                if (!onSelectGap || state?.activeLabel === undefined) return;
+                const gap = Number(state.activeLabel);
+                onSelectGap(gap === selectedGap ? null : gap);
+              }}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="gap" />
+              <YAxis />
+              <Tooltip
+                formatter={(value) => [value, "Pairs"]}
+                labelFormatter={(gap) => `Gap ${gap}`}
+              />
+              <Bar
+                dataKey="count"
+                isAnimationActive={false}
+                className={onSelectGap ? "cursor-pointer" : undefined}
+              >
+                {histogram.map(({ gap }) => (
+                  <Cell
+                    key={gap}
+                    fill={gap === selectedGap ? "#14b8a6" : "#22c55e"}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        {onSelectGap &&
+          (selectedGap === null ? (
+            <p className="text-xs text-muted-foreground">
+              Click a bar to highlight the primes with that gap in the grid.
+            </p>
+          ) : (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="h-3 w-3 rounded-sm border-2 border-teal-500" />
+              Gap {selectedGap}: {highlightedCount} primes highlighted in the
+              grid
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label="Clear gap highlight"
+                onClick={() => onSelectGap(null)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-medium">Record gaps against Cramér&apos;s bound</h4>
+        <p className="text-xs text-muted-foreground">
+          Each record is larger than every gap before it. Cramér conjectured
+          that the gap after p is at most about (ln p)².
+        </p>
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={records}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="start"
+                type="number"
+                scale="log"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(value: number) => value.toLocaleString()}
+              />
+              <YAxis />
+              <Tooltip
+                labelFormatter={(start) => `After p = ${start}`}
+                formatter={(value: number) => value.toFixed(1)}
+              />
+              <Legend />
+              <Line
+                dataKey="gap"
+                name="Record gap"
+                type="stepAfter"
+                stroke="#22c55e"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                isAnimationActive={false}
+              />
+              <Line
+                dataKey="cramer"
+                name="(ln p)²"
+                stroke="#3b82f6"
+                strokeDasharray="5 5"
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="max-h-48 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-muted-foreground">
+              <tr className="text-left">
+                <th className="font-normal">Gap</th>
+                <th className="font-normal">Between</th>
+                <th className="font-normal text-right">(ln p)²</th>
+                <th className="font-normal text-right">gap / (ln p)²</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map((record) => (
+                <tr key={record.start}>
+                  <td className="font-medium">{record.gap}</td>
+                  <td>
+                    {record.start.toLocaleString()} and{" "}
+                    {record.end.toLocaleString()}
+                  </td>
+                  <td className="text-right">{record.cramer.toFixed(1)}</td>
+                  <td className="text-right">
+                    {(record.gap / record.cramer).toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-medium">Jumping champions</h4>
+        <p className="text-xs text-muted-foreground">
+          The most common gap among the primes up to x, and where it changed.
+          The primorials 30, 210, 2310, … are conjectured to take over from 6,
+          but only far beyond any range that can be sieved here.
+        </p>
+        <ul className="space-y-1 text-sm">
+          {recentChampions.map((change) => (
+            <li key={change.at} className="flex items-center gap-2">
+              <span className="text-muted-foreground w-28">
+                from {change.at.toLocaleString()}
+              </span>
+              {change.champions.map((gap) => (
+                <Badge key={gap} variant="secondary">
+                  {gap}
+                </Badge>
+              ))}
+              {change.champions.length > 1 && (
+                <span className="text-xs text-muted-foreground">tied</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
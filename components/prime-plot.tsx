@@ -0,0 +1,298 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type PointerEvent,
+} from "react";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { cellColors, cellPalette, familyStripes } from "@/lib/cell-palette";
+import { useIsDark } from "@/hooks/use-is-dark";
+import {
+  polarPosition,
+  sacksPosition,
+  highlightsNumber,
+  type FamilyFilter,
+  type PrimeNumber,
+  type SpiralPoint,
+} from "@/lib/sieve";
+
+export type PlotLayout = "sacks" | "polar";
+
+const PLOT_HEIGHT = 560;
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 200;
+// Pointer travel below this is a click rather than a pan
+const CLICK_SLOP = 4;
+const HIT_RADIUS = 8;
+
+const LAYOUTS: Record<
+  PlotLayout,
+  { position: (n: number) => SpiralPoint; extent: (limit: number) => number }
+> = {
+  sacks: { position: sacksPosition, extent: Math.sqrt },
+  polar: { position: polarPosition, extent: (limit) => limit },
+};
+
+interface PrimePlotProps {
+  layout: PlotLayout;
+  numbers: PrimeNumber[];
+  isComplete: boolean;
+  currentPrime: number;
+  familyFilter: FamilyFilter;
+  selectedPrime: number | null;
+  onSelectedPrimeChange: (value: number | null) => void;
+}
+
+interface View {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+const INITIAL_VIEW: View = { zoom: 1, panX: 0, panY: 0 };
+
+// Sieve results as points in the plane, either on the Sacks spiral or on the
+// polar plot r = θ = n. Scroll to zoom, drag to pan, click a point for its
+// details.
+export function PrimePlot({
+  layout,
+  numbers,
+  isComplete,
+  currentPrime,
+  familyFilter,
+  selectedPrime,
+  onSelectedPrimeChange,
+}: PrimePlotProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; moved: number } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const [primesOnly, setPrimesOnly] = useState(false);
+  const isDark = useIsDark();
+
+  const { position, extent } = LAYOUTS[layout];
+  const count = numbers.length;
+  const height = Math.min(PLOT_HEIGHT, width);
+
+  // Scale that fits the whole plot at zoom 1
+  const fitScale =
+    (Math.min(width, height) / 2 - 8) / Math.max(1, extent(count));
+  const scale = fitScale * view.zoom;
+
+  // Positions only depend on the layout and the size of the board
+  const points = useMemo(
+    () => Array.from({ length: count }, (_, i) => position(i + 1)),
+    [position, count]
+  );
+
+  const toScreen = useCallback(
+    ({ x, y }: SpiralPoint): [number, number] => [
+      width / 2 + view.panX + x * scale,
+      height / 2 + view.panY - y * scale,
+    ],
+    [width, height, view, scale]
+  );
+
+  // Start from the fitted view whenever the plot changes shape
+  useEffect(() => setView(INITIAL_VIEW), [layout, count]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) =>
+      setWidth(entry.contentRect.width)
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Zoom around the pointer. The listener is registered by hand because
+  // React's wheel handlers are passive and can't stop the page scrolling.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const cx = event.clientX - rect.left - rect.width / 2;
+      const cy = event.clientY - rect.top - rect.height / 2;
+      setView((v) => {
+        const zoom = Math.min(
+          MAX_ZOOM,
+          Math.max(MIN_ZOOM, v.zoom * Math.exp(-event.deltaY * 0.002))
+        );
+        const ratio = zoom / v.zoom;
+        return {
+          zoom,
+          panX: cx - (cx - v.panX) * ratio,
+          panY: cy - (cy - v.panY) * ratio,
+        };
+      });
+    };
+    canvas.addEventListener("wheel", onWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", onWheel);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const palette = cellPalette(isDark);
+    // Dots grow with the zoom, but not as fast as the distances between them
+    const base = layout === "sacks" ? Math.min(3, fitScale * 0.3) : 1.2;
+    const radius = Math.min(8, Math.max(0.8, base * Math.sqrt(view.zoom)));
+
+    numbers.forEach((number, i) => {
+      if (number.state !== "prime" && (primesOnly || number.value === 1)) {
+        return;
+      }
+      const [sx, sy] = toScreen(points[i]);
+      if (sx < -radius || sy < -radius || sx > width + radius) return;
+      if (sy > height + radius) return;
+
+      const isHighlighted = highlightsNumber(number, familyFilter);
+      const isPrime = number.state === "prime";
+
+      // Highlighted primes take the colour of their first selected family
+      ctx.globalAlpha = isPrime ? 1 : 0.25;
+      ctx.fillStyle = isHighlighted
+        ? familyStripes(number, familyFilter)[0] ?? palette.highlightedRing
+        : cellColors(number, false, palette).text;
+      const r = isPrime ? radius : radius * 0.6;
+      if (r < 1.5) {
+        ctx.fillRect(sx - r, sy - r, 2 * r, 2 * r);
+      } else {
+        ctx.beginPath();
+        ctx.arc(sx, sy, r, 0, 2 * Math.PI);
+        ctx.fill();
+      }
+    });
+    ctx.globalAlpha = 1;
+
+    // Rings for the prime being sieved and the selected point
+    const ring = (value: number, colour: string) => {
+      const point = points[value - 1];
+      if (!point) return;
+      const [sx, sy] = toScreen(point);
+      ctx.strokeStyle = colour;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(sx, sy, radius + 3, 0, 2 * Math.PI);
+      ctx.stroke();
+    };
+    if (!isComplete && currentPrime > 1)
+      ring(currentPrime, palette.currentPrime);
+    if (selectedPrime !== null) ring(selectedPrime, palette.selected);
+  }, [
+    numbers,
+    points,
+    width,
+    height,
+    view,
+    fitScale,
+    toScreen,
+    layout,
+    isDark,
+    primesOnly,
+    familyFilter,
+    selectedPrime,
+    currentPrime,
+    isComplete,
+  ]);
+
+  // Nearest drawn point to the pointer, within a few pixels
+  const hitTest = useCallback(
+    (event: PointerEvent<HTMLCanvasElement>): number | null => {
+      const rect = event.currentTarget.getBoundingClientRect();
+      const px = event.clientX - rect.left;
+      const py = event.clientY - rect.top;
+
+      let best: number | null = null;
+      let bestDistance = HIT_RADIUS ** 2;
+      numbers.forEach((number, i) => {
+        if (primesOnly && number.state !== "prime") return;
+        const [sx, sy] = toScreen(points[i]);
+        const distance = (sx - px) ** 2 + (sy - py) ** 2;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = number.value;
+        }
+      });
+      return best;
+    },
+    [numbers, points, primesOnly, toScreen]
+  );
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY, moved: 0 };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    drag.x = event.clientX;
+    drag.y = event.clientY;
+    drag.moved += Math.abs(dx) + Math.abs(dy);
+    setView((v) => ({ ...v, panX: v.panX + dx, panY: v.panY + dy }));
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && drag.moved < CLICK_SLOP) onSelectedPrimeChange(hitTest(event));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <Switch checked={primesOnly} onCheckedChange={setPrimesOnly} />
+          Primes only
+        </label>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>Scroll to zoom, drag to pan</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setView(INITIAL_VIEW)}
+            disabled={view === INITIAL_VIEW}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset view
+          </Button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="relative w-full overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          className="block cursor-grab active:cursor-grabbing touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      </div>
+    </div>
+  );
+}
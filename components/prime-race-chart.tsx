@@ -0,0 +1,212 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { residueLineColour } from "@/lib/cell-palette";
+import {
+  clampRaceModulus,
+  MAX_RACE_MODULUS,
+  MIN_RACE_MODULUS,
+  primeRace,
+  RACE_PRESETS,
+} from "@/lib/sieve";
+
+// Lead changes drawn on the chart; the rest are only counted
+const MAX_MARKED_CHANGES = 40;
+
+interface PrimeRaceChartProps {
+  // Primes found so far, in order
+  primes: ArrayLike<number>;
+  limit: number;
+  modulus: number;
+  onModulusChange: (modulus: number) => void;
+  // Missing when there is no grid to colour
+  colourGrid?: boolean;
+  onColourGridChange?: (colour: boolean) => void;
+}
+
+// Chebyshev's prime race: running counts of primes in each reduced residue
+// class mod m, with the lead changes marked
+export function PrimeRaceChart({
+  primes,
+  limit,
+  modulus,
+  onModulusChange,
+  colourGrid,
+  onColourGridChange,
+}: PrimeRaceChartProps) {
+  // Counts drift apart slowly, so by default each class is shown against
+  // the average of all classes
+  const [relative, setRelative] = useState(true);
+  const [custom, setCustom] = useState(!RACE_PRESETS.includes(modulus));
+  const race = useMemo(
+    () => primeRace(primes, limit, modulus),
+    [primes, limit, modulus]
+  );
+  const { classes, points, leadChanges, leadShare } = race;
+
+  const data = useMemo(
+    () =>
+      points.map(({ x, counts }) => {
+        const mean =
+          counts.reduce((sum, count) => sum + count, 0) / classes.length;
+        const point: Record<string, number> = { x };
+        classes.forEach((residue, i) => {
+          point[`r${residue}`] = relative ? counts[i] - mean : counts[i];
+        });
+        return point;
+      }),
+    [points, classes, relative]
+  );
+  const finalCounts = points[points.length - 1]?.counts ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Modulus:</span>
+          <Select
+            value={custom ? "custom" : String(modulus)}
+            onValueChange={(value) => {
+              setCustom(value === "custom");
+              if (value !== "custom") onModulusChange(Number(value));
+            }}
+          >
+            <SelectTrigger className="w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RACE_PRESETS.map((preset) => (
+                <SelectItem key={preset} value={String(preset)}>
+                  mod {preset}
+                </SelectItem>
+              ))}
+              <SelectItem value="custom">Custom</SelectItem>
+            </SelectContent>
+          </Select>
+          {custom && (
+            <Input
+              type="number"
+              aria-label="Race modulus"
+              className="h-10 w-24"
+              min={MIN_RACE_MODULUS}
+              max={MAX_RACE_MODULUS}
+              defaultValue={modulus}
+              onChange={(event) => {
+                const value = Number.parseInt(event.target.value, 10);
+                if (Number.isFinite(value)) {
+                  onModulusChange(clampRaceModulus(value));
+                }
+              }}
+            />
+          )}
+        </div>
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <Switch checked={relative} onCheckedChange={setRelative} />
+          Relative to the average
+        </label>
+        {onColourGridChange && (
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <Switch
+              checked={colourGrid ?? false}
+              onCheckedChange={onColourGridChange}
+            />
+            Colour the grid by class
+          </label>
+        )}
+      </div>
+
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => value.toLocaleString()}
+            />
+            <YAxis />
+            <Tooltip
+              formatter={(value: number) => Number(value.toFixed(2))}
+              labelFormatter={(x) => `x = ${x}`}
+            />
+            <Legend />
+            {leadChanges.slice(0, MAX_MARKED_CHANGES).map((change) => (
+              <ReferenceLine
+                key={change.at}
+                x={change.at}
+                stroke="#94a3b8"
+                strokeDasharray="2 4"
+              />
+            ))}
+            {classes.map((residue, i) => (
+              <Line
+                key={residue}
+                type="stepAfter"
+                dataKey={`r${residue}`}
+                name={`${residue} mod ${modulus}`}
+                stroke={residueLineColour(i, classes.length)}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {classes.map((residue, i) => (
+          <div key={residue} className="p-2 border rounded-lg text-sm">
+            <div className="flex items-center gap-2 font-medium">
+              <span
+                className="h-3 w-3 rounded-sm"
+                style={{
+                  backgroundColor: residueLineColour(i, classes.length),
+                }}
+              />
+              {residue} mod {modulus}
+            </div>
+            <div>{(finalCounts[i] ?? 0).toLocaleString()} primes</div>
+            <div className="text-xs text-muted-foreground">
+              alone in the lead for {(leadShare[i] * 100).toFixed(1)}% of x
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {leadChanges.length <= 1
+          ? "The lead never changes hands in this range."
+          : `The lead changes hands ${
+              leadChanges.length - 1
+            } times, first at x = ${leadChanges[1].at.toLocaleString()}.`}
+        {leadChanges.length > MAX_MARKED_CHANGES &&
+          ` The first ${MAX_MARKED_CHANGES} changes are marked.`}
+      </p>
+    </div>
+  );
+}
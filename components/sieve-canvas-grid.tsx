@@ -0,0 +1,332 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type MouseEvent,
+} from "react";
+import {
+  cellColors,
+  cellPalette,
+  drawFamilyStripes,
+  familyStripes,
+  residueFill,
+  type ResidueColouring,
+} from "@/lib/cell-palette";
+import { useIsDark } from "@/hooks/use-is-dark";
+import { Badge } from "@/components/ui/badge";
+import {
+  coprimeResidues,
+  isCoprimeResidue,
+  residueTally,
+  highlightsNumber,
+  type FamilyFilter,
+  type PrimeNumber,
+  type SegmentWindow,
+} from "@/lib/sieve";
+
+// Boards with more cells than this are drawn on a canvas instead of the DOM
+export const CANVAS_GRID_THRESHOLD = 1000;
+
+const CELL_SIZE = 28;
+const CELL_GAP = 2;
+const PITCH = CELL_SIZE + CELL_GAP;
+const MAX_VIEWPORT_HEIGHT = 480;
+// Numbers are only written in cells at least this big
+const MIN_TEXT_CELL = 18;
+const MIN_LABEL_PITCH = 20;
+
+interface SieveCanvasGridProps {
+  numbers: PrimeNumber[];
+  currentPrime: number;
+  currentMultiple: number;
+  isComplete: boolean;
+  familyFilter: FamilyFilter;
+  selectedPrime: number | null;
+  segment?: SegmentWindow | null;
+  // Lay the board out in residue classes: one column per residue mod m,
+  // starting from 0, with the columns coprime to m shaded
+  modulus?: number | null;
+  // Primes on either side of the gap picked in the gap histogram
+  gapPairs?: Set<number> | null;
+  // Primes in the Goldbach partitions of the picked even number
+  goldbachPrimes?: Set<number> | null;
+  // Primes filled by residue class for the prime race
+  residueColours?: ResidueColouring | null;
+  onSelectedPrimeChange: (value: number | null) => void;
+}
+
+// Virtualised canvas grid: only the rows in view are drawn, and the pointer
+// is hit-tested against the cell layout to select a number
+export function SieveCanvasGrid({
+  numbers,
+  currentPrime,
+  currentMultiple,
+  isComplete,
+  familyFilter,
+  selectedPrime,
+  segment = null,
+  modulus = null,
+  gapPairs = null,
+  goldbachPrimes = null,
+  residueColours = null,
+  onSelectedPrimeChange,
+}: SieveCanvasGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const isDark = useIsDark();
+
+  // Residue layouts squeeze the cells so every column fits the width
+  const columns =
+    modulus ?? Math.max(1, Math.floor((width + CELL_GAP) / PITCH));
+  const pitch = modulus ? Math.min(PITCH, (width + CELL_GAP) / modulus) : PITCH;
+  const gap = pitch >= 12 ? CELL_GAP : pitch >= 4 ? 1 : 0;
+  const cellSize = pitch - gap;
+  // The cell for 0 leads the first row when columns are residues
+  const offset = modulus ? 1 : 0;
+  const rows = Math.ceil((numbers.length + offset) / columns);
+  const totalHeight = rows * pitch;
+  const viewportHeight = Math.min(MAX_VIEWPORT_HEIGHT, totalHeight);
+
+  const tally = useMemo(
+    () => (modulus ? residueTally(numbers, modulus) : []),
+    [numbers, modulus]
+  );
+
+  // Follow the container width so the column count fills the card
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) =>
+      setWidth(entry.contentRect.width)
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = viewportHeight * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${viewportHeight}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, viewportHeight);
+
+    const palette = cellPalette(isDark);
+    const firstRow = Math.floor(scrollTop / pitch);
+    const lastRow = Math.min(
+      rows - 1,
+      Math.ceil((scrollTop + viewportHeight) / pitch)
+    );
+
+    if (modulus) {
+      ctx.fillStyle = palette.coprime;
+      for (let col = 0; col < columns; col++) {
+        if (!isCoprimeResidue(col, modulus)) continue;
+        ctx.fillRect(col * pitch - gap / 2, 0, pitch, viewportHeight);
+      }
+    }
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let col = 0; col < columns; col++) {
+        const number = numbers[row * columns + col - offset];
+        if (!number) continue;
+
+        const x = col * pitch;
+        const y = row * pitch - scrollTop;
+        const isHighlighted = highlightsNumber(number, familyFilter);
+        const colors = cellColors(number, isHighlighted, palette);
+        const raceFill =
+          number.state === "prime" && residueColours
+            ? residueFill(number.value, residueColours, isDark)
+            : undefined;
+
+        // Cells skipped by a wheel are greyed out
+        ctx.globalAlpha = number.offWheel ? 0.3 : 1;
+        ctx.fillStyle = raceFill ?? colors.fill;
+        ctx.beginPath();
+        ctx.roundRect(x, y, cellSize, cellSize, Math.min(4, cellSize / 4));
+        ctx.fill();
+        if (isHighlighted) {
+          ctx.save();
+          ctx.clip();
+          drawFamilyStripes(
+            ctx,
+            x,
+            y,
+            cellSize,
+            familyStripes(number, familyFilter)
+          );
+          ctx.restore();
+        }
+
+        // Same ring precedence as the DOM grid
+        let ring: string | null = null;
+        if (selectedPrime === number.value) ring = palette.selected;
+        else if (hovered === number.value) ring = palette.hover;
+        else if (number.value === currentMultiple && !isComplete)
+          ring = palette.currentMultiple;
+        else if (
+          number.value === currentPrime &&
+          currentMultiple === 0 &&
+          !isComplete
+        )
+          ring = palette.currentPrime;
+        else if (gapPairs?.has(number.value)) ring = palette.gapPair;
+        else if (goldbachPrimes?.has(number.value)) ring = palette.goldbachPair;
+        else if (isHighlighted && number.state === "prime")
+          ring = palette.highlightedRing;
+
+        if (ring) {
+          ctx.strokeStyle = ring;
+          ctx.lineWidth = 2;
+          ctx.stroke();
+        }
+
+        // Active window of the segmented sieve
+        if (
+          segment &&
+          number.value >= segment.low &&
+          number.value <= segment.high
+        ) {
+          ctx.strokeStyle = palette.segment;
+          ctx.lineWidth = 1;
+          ctx.strokeRect(x - 0.5, y - 0.5, cellSize + 1, cellSize + 1);
+        }
+
+        if (cellSize >= MIN_TEXT_CELL) {
+          const digits = String(number.value).length;
+          ctx.fillStyle = colors.text;
+          ctx.font = `500 ${Math.min(
+            11,
+            (cellSize * 1.6) / digits
+          )}px sans-serif`;
+          ctx.fillText(
+            String(number.value),
+            x + cellSize / 2,
+            y + cellSize / 2 + 0.5
+          );
+        }
+        ctx.globalAlpha = 1;
+      }
+    }
+  }, [
+    numbers,
+    width,
+    scrollTop,
+    columns,
+    pitch,
+    gap,
+    cellSize,
+    offset,
+    modulus,
+    rows,
+    viewportHeight,
+    isDark,
+    hovered,
+    familyFilter,
+    selectedPrime,
+    currentPrime,
+    currentMultiple,
+    isComplete,
+    segment,
+    gapPairs,
+    goldbachPrimes,
+    residueColours,
+  ]);
+
+  // Map a pointer position to the number under it, if any
+  const hitTest = useCallback(
+    (event: MouseEvent<HTMLCanvasElement>): number | null => {
+      const rect = event.currentTarget.getBoundingClientRect();
+      const x = event.clientX - rect.left;
+      const y = event.clientY - rect.top + scrollTop;
+      const col = Math.floor(x / pitch);
+      const row = Math.floor(y / pitch);
+
+      if (col >= columns || x % pitch > cellSize || y % pitch > cellSize) {
+        return null;
+      }
+      return numbers[row * columns + col - offset]?.value ?? null;
+    },
+    [numbers, columns, pitch, cellSize, offset, scrollTop]
+  );
+
+  const grid = (
+    <div
+      ref={scrollRef}
+      className="w-full overflow-y-auto"
+      style={{ height: viewportHeight || undefined }}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+    >
+      <div className="relative" style={{ height: totalHeight }}>
+        <canvas
+          ref={canvasRef}
+          className="sticky top-0 block cursor-pointer"
+          onMouseMove={(event) => setHovered(hitTest(event))}
+          onMouseLeave={() => setHovered(null)}
+          onClick={(event) => onSelectedPrimeChange(hitTest(event))}
+        />
+      </div>
+    </div>
+  );
+
+  if (!modulus) return grid;
+
+  // Residue and prime tally above each column when there is room for them,
+  // otherwise the coprime classes are listed under the grid
+  const showLabels = pitch >= MIN_LABEL_PITCH;
+  return (
+    <div className="w-full">
+      {showLabels && (
+        <div
+          className="relative h-9 mb-1 text-[10px] leading-4 text-center"
+          style={{ width: columns * pitch }}
+        >
+          {tally.map((count, residue) => (
+            <div
+              key={residue}
+              className={`absolute top-0 rounded-sm ${
+                isCoprimeResidue(residue, modulus)
+                  ? "bg-sky-100 dark:bg-sky-950"
+                  : ""
+              }`}
+              style={{ left: residue * pitch, width: cellSize }}
+            >
+              <div className="font-semibold">{residue}</div>
+              <div className="text-muted-foreground">{count}</div>
+            </div>
+          ))}
+        </div>
+      )}
+      {grid}
+      {!showLabels && (
+        <div className="mt-3 flex flex-wrap gap-1 text-xs">
+          <span className="text-muted-foreground mr-1">
+            Primes per coprime class mod {modulus}:
+          </span>
+          {coprimeResidues(modulus).map((residue) => (
+            <Badge key={residue} variant="outline" className="font-normal">
+              {residue}: {tally[residue]}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
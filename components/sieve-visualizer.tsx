@@ -9,11 +9,23 @@ import {
   useDeferredValue,
 } from "react";
 import { motion } from "framer-motion";
+import { useTheme } from "next-themes";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Play, Pause, RotateCcw, StepForward, Info } from "lucide-react";
+import {
+  Play,
+  Pause,
+  RotateCcw,
+  StepBack,
+  StepForward,
+  Info,
+  Cpu,
+  X,
+} from "lucide-react";
 import {
   LineChart,
   Line,
@@ -37,202 +49,581 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-
-// Prime family types
-type PrimeFamily = "all" | "twin" | "mersenne" | "fermat" | "sophie-germain";
-
-// Prime number with additional properties
-interface PrimeNumber {
-  value: number;
-  state: "unmarked" | "prime" | "composite";
-  families: PrimeFamily[];
-  gap?: number; // Gap from previous prime
+import {
+  analyseGaps,
+  applyStep,
+  describeStep,
+  familiesIdentified,
+  recordSieve,
+  describeFamilyFilter,
+  familyOverlaps,
+  goldbachPrimes,
+  highlightsNumber,
+  isFamilyFilterActive,
+  primePairsWithGap,
+  matchesFamilyFilter,
+  MAX_OVERLAP_FAMILIES,
+  pruneFamilyFilter,
+  type FamilyFilter,
+  clampModulus,
+  coprimeResidues,
+  MAX_MODULUS,
+  MIN_MODULUS,
+  RESIDUE_PRESETS,
+  sieveOfEratosthenes,
+  compareOptimisations,
+  OPTIMISATION_LABELS,
+  TEXTBOOK_ERATOSTHENES,
+  type EratosthenesOptions,
+  type Wheel,
+  countOperations,
+  operationsAtStep,
+  theoreticalSieveWork,
+  type SieveRun,
+  SEGMENTED_SIEVE_EXPLANATION,
+  SIEVE_ALGORITHMS,
+  type SieveAlgorithm,
+  runSieve,
+  sieveSegmented,
+  stateAtStep,
+  summarizePrimes,
+  LARGE_SIEVE_MAX,
+  type PrimeFamily,
+  type PrimeStats,
+  type SieveState,
+} from "@/lib/sieve";
+import { useLargeSieve } from "@/hooks/use-large-sieve";
+import { useCustomFamilies } from "@/hooks/use-custom-families";
+import { useIsDark } from "@/hooks/use-is-dark";
+import {
+  cellColors,
+  cellPalette,
+  familyColour,
+  familyStripes,
+  residueColouring,
+  residueFill,
+} from "@/lib/cell-palette";
+import { gridSvg, imageColumns } from "@/lib/image-export";
+import { NumberInspector } from "@/components/number-inspector";
+import { ArithmeticCharts } from "@/components/arithmetic-charts";
+import { PrimeGapAnalysis } from "@/components/prime-gap-analysis";
+import { PrimeCountingChart } from "@/components/prime-counting-chart";
+import { ExplicitFormulaChart } from "@/components/explicit-formula-chart";
+import { PrimeRaceChart } from "@/components/prime-race-chart";
+import { GoldbachExplorer } from "@/components/goldbach-explorer";
+import { ExportMenu } from "@/components/export-menu";
+import { ImageExportMenu } from "@/components/image-export-menu";
+import { CustomFamilyEditor } from "@/components/custom-family-editor";
+import { FamilyFilterPicker } from "@/components/family-filter-picker";
+import {
+  SieveCanvasGrid,
+  CANVAS_GRID_THRESHOLD,
+} from "@/components/sieve-canvas-grid";
+import { UlamSpiral } from "@/components/ulam-spiral";
+import { PrimePlot, type PlotLayout } from "@/components/prime-plot";
+import {
+  DEFAULT_SHARED_STATE,
+  MAX_SPEED,
+  MAX_STEP_LIMIT,
+  MIN_SPEED,
+  MIN_STEP_LIMIT,
+  MAX_SEGMENT_SIZE,
+  MIN_SEGMENT_SIZE,
+  hasSharedState,
+  maxStepLimit,
+  parseSharedState,
+  sameRunSettings,
+  sharedStateParams,
+  type RunSettings,
+  type VisualizerTab,
+} from "@/lib/url-state";
+import {
+  loadStoredState,
+  saveStoredState,
+  type SavedSession,
+  type ThemePreference,
+} from "@/lib/preferences";
+
+// Step-by-step animation (classic or segmented), or a whole large range
+// sieved in a Web Worker
+type SieveMode = "steps" | "segmented" | "large";
+type SpiralLayout = "ulam" | PlotLayout;
+// "auto" picks the column count from maxNumber, anything else is a modulus
+type ColumnLayout = "auto" | "custom" | `${number}`;
+
+// Layouts read back from storage
+const isColumnLayout = (value: string): value is ColumnLayout =>
+  value === "auto" || value === "custom" || /^[1-9]\d*$/.test(value);
+const isSpiralLayout = (value: string): value is SpiralLayout =>
+  value === "ulam" || value === "sacks" || value === "polar";
+
+// Number of limits the complexity chart runs the algorithm at
+const COMPLEXITY_SAMPLES = 8;
+
+// Colours of a highlighted cell's families, along its bottom edge
+function FamilyStripeBar({ colours }: { colours: string[] }) {
+  return (
+    <span className="absolute inset-x-0 bottom-0 flex h-1.5">
+      {colours.map((colour) => (
+        <span
+          key={colour}
+          className="flex-1"
+          style={{ backgroundColor: colour }}
+        />
+      ))}
+    </span>
+  );
 }
 
 export function SieveVisualizer() {
-  const [maxNumber, setMaxNumber] = useState(100);
-  const [speed, setSpeed] = useState(100);
-  const [numbers, setNumbers] = useState<PrimeNumber[]>([]);
-  const [currentPrime, setCurrentPrime] = useState(2);
+  const [maxNumber, setMaxNumber] = useState(DEFAULT_SHARED_STATE.maxNumber);
+  // Slider position while it is dragged; the board is only recorded again
+  // once it is let go
+  const [limitDraft, setLimitDraft] = useState<number | null>(null);
+  const [speed, setSpeed] = useState(DEFAULT_SHARED_STATE.speed);
+  const [tab, setTab] = useState<VisualizerTab>(DEFAULT_SHARED_STATE.tab);
+  const [mode, setMode] = useState<SieveMode>("steps");
+  const [segmentSize, setSegmentSize] = useState(
+    DEFAULT_SHARED_STATE.segmentSize
+  );
+  const [algorithm, setAlgorithm] = useState<SieveAlgorithm>("eratosthenes");
+  const [optimisations, setOptimisations] = useState<EratosthenesOptions>(
+    TEXTBOOK_ERATOSTHENES
+  );
+  const [columnLayout, setColumnLayout] = useState<ColumnLayout>("auto");
+  const [customModulus, setCustomModulus] = useState(12);
+  const [spiralLayout, setSpiralLayout] = useState<SpiralLayout>("ulam");
+  const [largeLimit, setLargeLimit] = useState(1_000_000);
+  const largeSieve = useLargeSieve();
   const [isRunning, setIsRunning] = useState(false);
-  const [isComplete, setIsComplete] = useState(false);
-  const [currentMultiple, setCurrentMultiple] = useState(0);
-  const [selectedFamily, setSelectedFamily] = useState<PrimeFamily>("all");
+  const [familyFilter, setFamilyFilter] = useState<FamilyFilter>(
+    DEFAULT_SHARED_STATE.familyFilter
+  );
+  const customFamilies = useCustomFamilies();
+  const { primeFamilies } = customFamilies;
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [selectedPrime, setSelectedPrime] = useState<number | null>(null);
+  const [selectedGap, setSelectedGap] = useState<number | null>(null);
+  // Prime race modulus, and whether board primes are coloured by its classes
+  const [raceModulus, setRaceModulus] = useState(4);
+  const [colourByResidue, setColourByResidue] = useState(false);
+  // Even number whose Goldbach partitions are highlighted
+  const [goldbachNumber, setGoldbachNumber] = useState<number | null>(null);
+
+  // Segmented and large-range modes always use Eratosthenes
+  const algorithmInfo =
+    SIEVE_ALGORITHMS[mode === "steps" ? algorithm : "eratosthenes"];
+  const stepLimit = maxStepLimit(algorithmInfo.id);
+  const title =
+    mode === "segmented"
+      ? "Segmented Sieve of Eratosthenes"
+      : algorithmInfo.label;
+  const explanation =
+    mode === "segmented"
+      ? SEGMENTED_SIEVE_EXPLANATION
+      : algorithmInfo.explanation;
+  const showOptimisations = mode === "steps" && algorithm === "eratosthenes";
+  const run = useMemo((): SieveRun => {
+    if (mode === "segmented") {
+      return (limit, ops) => sieveSegmented(limit, segmentSize, ops);
+    }
+    if (showOptimisations) {
+      return (limit, ops) => sieveOfEratosthenes(limit, ops, optimisations);
+    }
+    return algorithmInfo.run;
+  }, [mode, segmentSize, showOptimisations, optimisations, algorithmInfo]);
+
+  // The whole run is recorded up front so any step can be revisited
+  const history = useMemo(() => recordSieve(maxNumber, run), [maxNumber, run]);
+  const totalSteps = history.steps.length;
+  const [step, setStep] = useState(0);
+  const [sieve, setSieve] = useState<SieveState>(() => stateAtStep(history, 0));
+
+  const { currentPrime, currentMultiple, isComplete, segment } = sieve;
+
+  // Families are tagged on the finished board apart from the recording, so
+  // editing one keeps the run where it is
+  const numbers = useMemo(
+    () =>
+      isComplete
+        ? applyStep(sieve, [familiesIdentified(history.primes, primeFamilies)])
+            .numbers
+        : sieve.numbers,
+    [isComplete, sieve, history.primes, primeFamilies]
+  );
+
+  // Segmented mode: base primes up to √n, and a check against the classic run
+  const segmentRoot = Math.floor(Math.sqrt(maxNumber));
+  const basePrimes = useMemo(
+    () =>
+      runSieve(segmentRoot)
+        .numbers.filter((n) => n.state === "prime")
+        .map((n) => n.value),
+    [segmentRoot]
+  );
+  const matchesClassic = useMemo(() => {
+    if (mode !== "segmented" || !isComplete) return null;
+    const classic = runSieve(maxNumber).numbers;
+    return numbers.every((n, i) => n.state === classic[i]?.state);
+  }, [mode, isComplete, maxNumber, numbers]);
+
+  const inSegment = useCallback(
+    (value: number) =>
+      segment !== null && value >= segment.low && value <= segment.high,
+    [segment]
+  );
 
   // Add memoization for filtered numbers
   const deferredNumbers = useDeferredValue(numbers);
 
   // Memoize the resetSieve function
   const resetSieve = useCallback(() => {
-    const newNumbers = Array.from({ length: maxNumber }, (_, i) => ({
-      value: i + 1,
-      state: i === 0 ? ("prime" as const) : ("unmarked" as const),
-      families: [] as PrimeFamily[],
-    }));
-
-    setNumbers(newNumbers);
-    setCurrentPrime(2);
-    setCurrentMultiple(0);
+    setSieve(stateAtStep(history, 0));
+    setStep(0);
     setIsRunning(false);
-    setIsComplete(false);
 
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current);
       timeoutRef.current = null;
     }
-  }, [maxNumber]);
+  }, [history]);
+
+  // Step to jump to, from a shared link or a resumed session, once the
+  // board for these settings has been recorded
+  const [pendingStep, setPendingStep] = useState<{
+    settings: RunSettings;
+    step: number;
+  } | null>(null);
+  // Nothing is saved until the stored state and the link have been read
+  const [restored, setRestored] = useState(false);
+  const [resumeOffer, setResumeOffer] = useState<SavedSession | null>(null);
+  const { theme, setTheme } = useTheme();
+  const themePreference =
+    theme === "light" || theme === "dark" ? theme : "system";
+
+  const runSettings = useMemo(
+    (): RunSettings => ({
+      maxNumber,
+      mode: mode === "segmented" ? "segmented" : "steps",
+      algorithm,
+      segmentSize,
+      optimisations,
+    }),
+    [maxNumber, mode, algorithm, segmentSize, optimisations]
+  );
+
+  // Apply the saved preferences, then any state in the query string, which
+  // wins over them. Custom families have to be registered first so filters
+  // that use them still work.
+  useEffect(() => {
+    if (!customFamilies.loaded || restored) return;
+    const known = (family: PrimeFamily) =>
+      primeFamilies.some((definition) => definition.id === family);
+    const stored = loadStoredState(known);
+    if (stored) {
+      const { preferences } = stored;
+      setMaxNumber(preferences.maxNumber);
+      setSpeed(preferences.speed);
+      if (isColumnLayout(preferences.columnLayout)) {
+        setColumnLayout(preferences.columnLayout);
+      }
+      setCustomModulus(preferences.customModulus);
+      if (isSpiralLayout(preferences.spiralLayout)) {
+        setSpiralLayout(preferences.spiralLayout);
+      }
+      setTheme(preferences.theme);
+      setFamilyFilter(preferences.familyFilter);
+    }
+
+    const query = new URLSearchParams(window.location.search);
+    if (hasSharedState(query)) {
+      // A shared link shows the sender's board, not the saved run
+      const shared = parseSharedState(query, known);
+      setMode(shared.mode);
+      setAlgorithm(shared.algorithm);
+      setSegmentSize(shared.segmentSize);
+      setOptimisations(shared.optimisations);
+      setMaxNumber(shared.maxNumber);
+      setSpeed(shared.speed);
+      setFamilyFilter(shared.familyFilter);
+      setTab(shared.tab);
+      setPendingStep({
+        settings: {
+          maxNumber: shared.maxNumber,
+          mode: shared.mode,
+          algorithm: shared.algorithm,
+          segmentSize: shared.segmentSize,
+          optimisations: shared.optimisations,
+        },
+        step: shared.step,
+      });
+    } else if (stored?.session) {
+      setResumeOffer(stored.session);
+    }
+    setRestored(true);
+  }, [customFamilies.loaded, primeFamilies, restored, setTheme]);
 
   // Initialize the numbers array
   useEffect(() => {
     resetSieve();
-  }, [maxNumber, resetSieve]);
+  }, [resetSieve]);
+
+  // Keep the query string in step with the board so the address can be
+  // shared. The step is left alone while playing, as browsers throttle
+  // history updates.
+  useEffect(() => {
+    if (!restored || pendingStep || isRunning) return;
+    const query = sharedStateParams({
+      ...runSettings,
+      speed,
+      familyFilter,
+      step,
+      tab,
+    }).toString();
+    const url = `${window.location.pathname}${query ? `?${query}` : ""}`;
+    window.history.replaceState(window.history.state, "", url);
+  }, [
+    restored,
+    pendingStep,
+    isRunning,
+    runSettings,
+    speed,
+    familyFilter,
+    step,
+    tab,
+  ]);
 
-  // Calculate prime count and estimated prime count
-  const primeStats = useMemo(() => {
+  // Primes found so far on the board. Most steps only cross out composites,
+  // so the previous array is kept while the primes are unchanged and the
+  // stats below are not recomputed on every step.
+  const boardPrimesRef = useRef<number[]>([]);
+  const boardPrimes = useMemo(() => {
     const primes = numbers
       .filter((n) => n.state === "prime")
       .map((n) => n.value);
-    const primeCount = primes.length;
-
-    // Calculate estimated prime count using Prime Number Theorem: n/ln(n)
-    const estimatedCount =
-      maxNumber > 1 ? Math.round(maxNumber / Math.log(maxNumber)) : 0;
-
-    // Calculate prime gaps
-    const gaps = [];
-    for (let i = 1; i < primes.length; i++) {
-      gaps.push(primes[i] - primes[i - 1]);
-    }
-
-    const avgGap =
-      gaps.length > 0
-        ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length
-        : 0;
-    const maxGap = gaps.length > 0 ? Math.max(...gaps) : 0;
-
-    // Generate data for the chart - now based on current progress
-    const chartData = [];
-    let actualCount = 0;
-
-    // Determine the highest number we've processed so far
-    const highestProcessed = isComplete
-      ? maxNumber
-      : Math.max(
-          currentPrime,
-          currentMultiple > 0 ? currentMultiple - currentPrime : 0
-        );
-
-    for (
-      let i = 10;
-      i <= maxNumber;
-      i += Math.max(1, Math.floor(maxNumber / 20))
-    ) {
-      // Only count primes up to the point we've processed
-      if (i <= highestProcessed) {
-        actualCount = numbers.filter(
-          (n) => n.value <= i && n.state === "prime"
-        ).length;
-      } else if (chartData.length > 0) {
-        // For unprocessed points, use the last known actual count
-        actualCount = chartData[chartData.length - 1].actual;
-      }
-
-      const estimated = i > 1 ? i / Math.log(i) : 0;
-      chartData.push({
-        n: i,
-        actual: actualCount,
-        estimated: Math.round(estimated * 100) / 100,
-      });
-    }
-
-    // Add the final point
+    const previous = boardPrimesRef.current;
     if (
-      chartData.length === 0 ||
-      chartData[chartData.length - 1].n !== maxNumber
+      primes.length !== previous.length ||
+      primes.some((p, i) => p !== previous[i])
     ) {
-      // Only use actual count if we've processed up to maxNumber
-      const finalActualCount = isComplete
-        ? primeCount
-        : highestProcessed >= maxNumber
-        ? numbers.filter((n) => n.state === "prime").length
-        : chartData.length > 0
-        ? chartData[chartData.length - 1].actual
-        : 0;
-
-      chartData.push({
-        n: maxNumber,
-        actual: finalActualCount,
-        estimated:
-          Math.round(
-            (maxNumber > 1 ? maxNumber / Math.log(maxNumber) : 0) * 100
-          ) / 100,
-      });
+      boardPrimesRef.current = primes;
     }
+    return boardPrimesRef.current;
+  }, [numbers]);
 
-    return {
-      primeCount,
-      estimatedCount,
-      density: primeCount / maxNumber,
-      avgGap,
-      maxGap,
-      chartData,
-    };
-  }, [numbers, maxNumber, currentPrime, currentMultiple, isComplete]);
-
-  // Optimize performStep with useCallback
-  const performStep = useCallback(() => {
-    if (isComplete) return;
+  // Prime count, gaps and the π(n) chart for the board so far
+  const primeStats = useMemo(
+    () => summarizePrimes(boardPrimes, maxNumber),
+    [boardPrimes, maxNumber]
+  );
 
-    setNumbers((prevNumbers) => {
-      const newNumbers = [...prevNumbers];
+  // The stats tab shows either the animated board or the worker's results
+  const statsLimit = mode === "large" ? largeLimit : maxNumber;
+  const stats = useMemo((): PrimeStats => {
+    if (mode !== "large") return primeStats;
+    return largeSieve.result?.stats ?? summarizePrimes([], largeLimit);
+  }, [mode, primeStats, largeSieve.result, largeLimit]);
+
+  const gapAnalysis = useMemo(
+    () =>
+      analyseGaps(
+        mode === "large" ? largeSieve.result?.primes ?? [] : boardPrimes
+      ),
+    [mode, largeSieve.result, boardPrimes]
+  );
+  // Primes on either side of the gap picked in the histogram
+  const gapPairs = useMemo(
+    () =>
+      mode !== "large" && selectedGap !== null
+        ? primePairsWithGap(boardPrimes, selectedGap)
+        : null,
+    [mode, selectedGap, boardPrimes]
+  );
+  // Primes in the partitions of the picked even number
+  const goldbachPairs = useMemo(
+    () =>
+      mode !== "large" && goldbachNumber !== null && goldbachNumber <= maxNumber
+        ? goldbachPrimes(boardPrimes, goldbachNumber)
+        : null,
+    [mode, goldbachNumber, maxNumber, boardPrimes]
+  );
+  // Primes on the board coloured by their class in the prime race
+  const raceClasses = useMemo(
+    () => coprimeResidues(raceModulus),
+    [raceModulus]
+  );
+  const residueColours = useMemo(
+    () =>
+      colourByResidue && mode !== "large"
+        ? residueColouring(raceModulus, raceClasses)
+        : null,
+    [colourByResidue, mode, raceModulus, raceClasses]
+  );
+  const isDark = useIsDark();
 
-      // If we haven't started marking multiples for the current prime yet
-      if (currentMultiple === 0) {
-        // Mark the current prime
-        const primeIndex = currentPrime - 1;
-        newNumbers[primeIndex].state = "prime";
+  const familyCounts = useMemo(() => {
+    if (mode === "large") return largeSieve.result?.familyCounts ?? {};
 
-        // Set up to mark the first multiple
-        setCurrentMultiple(currentPrime * 2);
-        return newNumbers;
+    const counts: Partial<Record<PrimeFamily, number>> = {};
+    for (const n of numbers) {
+      for (const family of n.families) {
+        counts[family] = (counts[family] ?? 0) + 1;
       }
+    }
+    return counts;
+  }, [mode, largeSieve.result, numbers]);
+
+  const familyLabel = useCallback(
+    (family: PrimeFamily) =>
+      primeFamilies.find((definition) => definition.id === family)
+        ?.shortLabel ?? family,
+    [primeFamilies]
+  );
 
-      // Mark the current multiple as composite
-      if (currentMultiple <= maxNumber) {
-        const multipleIndex = currentMultiple - 1;
-        newNumbers[multipleIndex].state = "composite";
+  // Shared by the grid and spiral image downloads, which draw the board as
+  // it stands in the colours of the current theme
+  const imageName = `sieve-${maxNumber}-step-${step}`;
+  const imageOptions = {
+    dark: isDark,
+    title: `${title}, 1 to ${maxNumber.toLocaleString()}, step ${step} of ${totalSteps}`,
+    familyFilter,
+    familyLabel,
+    residueColours,
+  };
 
-        // Move to the next multiple
-        setCurrentMultiple(currentMultiple + currentPrime);
-        return newNumbers;
-      }
+  // Size of the combined set and the Venn regions of the families in the
+  // filter. Large runs only keep per-family counts, so these need the board.
+  const familySets = useMemo(() => {
+    if (mode === "large" || !isFamilyFilterActive(familyFilter)) return null;
 
-      // Find the next prime
-      const nextPrime = findNextPrime(newNumbers, currentPrime);
-
-      if (nextPrime) {
-        setCurrentPrime(nextPrime);
-        setCurrentMultiple(0);
-      } else {
-        // Mark any remaining unmarked numbers as prime
-        for (let i = 0; i < newNumbers.length; i++) {
-          if (newNumbers[i].state === "unmarked") {
-            newNumbers[i].state = "prime";
-          }
-        }
+    const primes = numbers.filter((n) => n.state === "prime");
+    const compared = [...familyFilter.include, ...familyFilter.exclude];
+    return {
+      compared,
+      combined: primes.filter((n) =>
+        matchesFamilyFilter(n.families, familyFilter)
+      ).length,
+      overlaps: familyOverlaps(
+        primes.map((n) => n.families),
+        compared
+      ),
+    };
+  }, [mode, familyFilter, numbers]);
 
-        // Identify prime families when complete
-        const updatedWithFamilies = identifyPrimeFamilies(newNumbers);
-        setIsComplete(true);
-        setIsRunning(false);
-        return updatedWithFamilies;
-      }
+  // Work done so far, and how the whole run scales against n·ln ln n
+  const operations = useMemo(
+    () => operationsAtStep(history, step),
+    [history, step]
+  );
+  const deferredMaxNumber = useDeferredValue(maxNumber);
+  const complexityData = useMemo(() => {
+    const points = [];
+    for (let i = 1; i <= COMPLEXITY_SAMPLES; i++) {
+      const n = Math.max(
+        2,
+        Math.round((deferredMaxNumber * i) / COMPLEXITY_SAMPLES)
+      );
+      const ops = countOperations(run, n);
+      points.push({
+        n,
+        crossOffs: ops.crossOffs,
+        redundantMarks: ops.redundantMarks,
+        theoretical: Math.round(theoreticalSieveWork(n)),
+      });
+    }
+    return points;
+  }, [run, deferredMaxNumber]);
+
+  // What each Eratosthenes optimisation saves compared with the textbook run
+  const optimisationReport = useMemo(
+    () =>
+      showOptimisations
+        ? compareOptimisations(deferredMaxNumber, optimisations)
+        : null,
+    [showOptimisations, deferredMaxNumber, optimisations]
+  );
+
+  // Apply the next recorded step on top of the current board
+  const performStep = useCallback(() => {
+    if (step >= totalSteps) return;
+
+    const next = applyStep(sieve, history.steps[step]);
+    setSieve(next);
+    setStep(step + 1);
+    if (next.isComplete) setIsRunning(false);
+  }, [history, sieve, step, totalSteps]);
+
+  // Jump to any point of the run, pausing playback
+  const goToStep = useCallback(
+    (target: number) => {
+      const clamped = Math.max(0, Math.min(target, totalSteps));
+      setIsRunning(false);
+      setSieve(stateAtStep(history, clamped));
+      setStep(clamped);
+    },
+    [history, totalSteps]
+  );
 
-      return newNumbers;
+  // Jump to a pending step once its board is the one on screen. This runs
+  // after the board has been reset for the new settings.
+  useEffect(() => {
+    if (!pendingStep || !sameRunSettings(pendingStep.settings, runSettings)) {
+      return;
+    }
+    setPendingStep(null);
+    goToStep(pendingStep.step);
+  }, [pendingStep, runSettings, goToStep]);
+
+  // Reopen the run saved on the last visit at the step it had reached
+  const resumeSession = useCallback((session: SavedSession) => {
+    const { settings } = session;
+    setMode(settings.mode);
+    setAlgorithm(settings.algorithm);
+    setSegmentSize(settings.segmentSize);
+    setOptimisations(settings.optimisations);
+    setMaxNumber(settings.maxNumber);
+    setPendingStep({ settings, step: session.step });
+    setResumeOffer(null);
+  }, []);
+
+  // Save the preferences and the run in progress for the next visit. While
+  // the offer to resume is open, the saved run is kept as it was. Nothing is
+  // saved while playing; the step is stored once the run pauses or ends.
+  useEffect(() => {
+    if (!restored || pendingStep || isRunning) return;
+    const inProgress =
+      mode !== "large" && step > 0 && step < totalSteps
+        ? { settings: runSettings, step, totalSteps, savedAt: Date.now() }
+        : null;
+    saveStoredState({
+      preferences: {
+        maxNumber,
+        speed,
+        columnLayout,
+        customModulus,
+        spiralLayout,
+        theme: themePreference,
+        familyFilter,
+      },
+      session: resumeOffer ?? inProgress,
     });
-  }, [currentMultiple, currentPrime, isComplete, maxNumber]);
+  }, [
+    restored,
+    pendingStep,
+    isRunning,
+    resumeOffer,
+    mode,
+    step,
+    totalSteps,
+    runSettings,
+    maxNumber,
+    speed,
+    columnLayout,
+    customModulus,
+    spiralLayout,
+    themePreference,
+    familyFilter,
+  ]);
 
   // Update the useEffect for animation
   useEffect(() => {
@@ -248,119 +639,12 @@ export function SieveVisualizer() {
     }
   }, [isRunning, isComplete, speed, performStep]);
 
-  // Find the next prime number
-  const findNextPrime = (
-    nums: PrimeNumber[],
-    startFrom: number
-  ): number | null => {
-    for (let i = startFrom; i < nums.length; i++) {
-      if (nums[i].state === "unmarked") {
-        return nums[i].value;
-      }
-    }
-    return null;
-  };
-
-  // Check if a number is a power of 2
-  const isPowerOfTwo = (n: number): boolean => {
-    return n > 0 && (n & (n - 1)) === 0;
-  };
-
-  // Check if a number is a Mersenne prime (2^n - 1)
-  const isMersennePrime = (p: number): boolean => {
-    // Check if p is of form 2^n - 1
-    const n = p + 1;
-    return isPowerOfTwo(n);
-  };
-
-  // Check if a number is a Fermat prime (2^(2^n) + 1)
-  const isFermatPrime = (p: number): boolean => {
-    // Known Fermat primes: 3, 5, 17, 257, 65537
-    return [3, 5, 17, 257, 65537].includes(p);
-  };
-
-  // Identify special prime families
-  const identifyPrimeFamilies = (nums: PrimeNumber[]): PrimeNumber[] => {
-    const primes = nums.filter((n) => n.state === "prime").map((n) => n.value);
-    const primeSet = new Set(primes);
-
-    // Create a copy of the numbers array
-    const updatedNumbers = [...nums];
-
-    // Identify twin primes
-    for (const p of primes) {
-      if (primeSet.has(p + 2)) {
-        const idx1 = updatedNumbers.findIndex((n) => n.value === p);
-        const idx2 = updatedNumbers.findIndex((n) => n.value === p + 2);
-
-        if (idx1 >= 0 && !updatedNumbers[idx1].families.includes("twin")) {
-          updatedNumbers[idx1].families.push("twin");
-        }
-
-        if (idx2 >= 0 && !updatedNumbers[idx2].families.includes("twin")) {
-          updatedNumbers[idx2].families.push("twin");
-        }
-      }
-    }
-
-    // Identify Mersenne primes
-    for (const p of primes) {
-      if (isMersennePrime(p)) {
-        const idx = updatedNumbers.findIndex((n) => n.value === p);
-        if (idx >= 0 && !updatedNumbers[idx].families.includes("mersenne")) {
-          updatedNumbers[idx].families.push("mersenne");
-        }
-      }
-    }
-
-    // Identify Fermat primes
-    for (const p of primes) {
-      if (isFermatPrime(p)) {
-        const idx = updatedNumbers.findIndex((n) => n.value === p);
-        if (idx >= 0 && !updatedNumbers[idx].families.includes("fermat")) {
-          updatedNumbers[idx].families.push("fermat");
-        }
-      }
-    }
-
-    // Identify Sophie Germain primes
-    for (const p of primes) {
-      if (primeSet.has(2 * p + 1)) {
-        const idx = updatedNumbers.findIndex((n) => n.value === p);
-        if (
-          idx >= 0 &&
-          !updatedNumbers[idx].families.includes("sophie-germain")
-        ) {
-          updatedNumbers[idx].families.push("sophie-germain");
-        }
-      }
-    }
-
-    // Calculate prime gaps
-    let lastPrimeIndex = -1;
-    for (let i = 0; i < updatedNumbers.length; i++) {
-      if (updatedNumbers[i].state === "prime") {
-        if (lastPrimeIndex >= 0) {
-          updatedNumbers[i].gap =
-            updatedNumbers[i].value - updatedNumbers[lastPrimeIndex].value;
-        }
-        lastPrimeIndex = i;
-      }
-    }
-
-    return updatedNumbers;
-  };
-
-  // When the algorithm completes, identify prime families
-  useEffect(() => {
-    if (isComplete) {
-      // Only update if we haven't already identified families
-      const hasIdentifiedFamilies = numbers.some((n) => n.families.length > 0);
-      if (!hasIdentifiedFamilies) {
-        setNumbers((prevNumbers) => identifyPrimeFamilies(prevNumbers));
-      }
-    }
-  }, [isComplete, numbers]);
+  const modulus =
+    columnLayout === "auto"
+      ? null
+      : columnLayout === "custom"
+      ? customModulus
+      : Number(columnLayout);
 
   // Optimize the grid rendering with virtualization for large numbers
   const getGridColumns = useCallback(() => {
@@ -369,63 +653,69 @@ export function SieveVisualizer() {
     return "grid-cols-20";
   }, [maxNumber]);
 
-  // Filter numbers based on selected family - with memoization
+  // Filter numbers based on the selected families - with memoization
   const filteredNumbers = useMemo(() => {
-    if (selectedFamily === "all") {
+    if (!isFamilyFilterActive(familyFilter)) {
       return deferredNumbers;
     }
     return deferredNumbers.map((num) => ({
       ...num,
-      highlighted: num.families.includes(selectedFamily),
+      highlighted: highlightsNumber(num, familyFilter),
     }));
-  }, [deferredNumbers, selectedFamily]);
-
-  // Add this helper function to find factors
-  const findFactors = useCallback((num: number): number[] => {
-    const factors: number[] = [];
-
-    // Find the smallest prime factor first
-    for (let i = 2; i <= Math.sqrt(num); i++) {
-      if (num % i === 0) {
-        factors.push(i);
-        // If we're showing all factors, add the complementary factor
-        if (i !== num / i) {
-          factors.push(num / i);
-        }
-        break;
-      }
-    }
-
-    // If no factors were found, the number is prime
-    if (factors.length === 0 && num > 1) {
-      return [1, num];
-    } else if (num === 1) {
-      return [1];
-    }
+  }, [deferredNumbers, familyFilter]);
 
-    // Sort the factors
-    return [1, ...factors.sort((a, b) => a - b), num];
-  }, []);
+  // The number open in the inspector, as it stands on the board
+  const selectedNumber =
+    mode !== "large" && selectedPrime !== null
+      ? numbers[selectedPrime - 1]
+      : undefined;
+  const selectedCrossedOutAt = selectedNumber
+    ? history.crossedOutAt.get(selectedNumber.value)
+    : undefined;
 
   // Optimize the grid rendering for large numbers
   const renderGrid = useMemo(() => {
     const gridClass = getGridColumns();
 
+    if (filteredNumbers.length > CANVAS_GRID_THRESHOLD || modulus) {
+      // Too many cells for the DOM, or columns by residue class: draw them
+      // on a canvas
+      return (
+        <SieveCanvasGrid
+          numbers={filteredNumbers}
+          currentPrime={currentPrime}
+          currentMultiple={currentMultiple}
+          isComplete={isComplete}
+          familyFilter={familyFilter}
+          selectedPrime={selectedPrime}
+          segment={segment}
+          modulus={modulus}
+          gapPairs={gapPairs}
+          goldbachPrimes={goldbachPairs}
+          residueColours={residueColours}
+          onSelectedPrimeChange={setSelectedPrime}
+        />
+      );
+    }
+
     if (filteredNumbers.length > 200) {
       // For large datasets, use a more efficient rendering approach
       return (
         <div className={`grid ${gridClass} gap-2 justify-center`}>
           {filteredNumbers.map((number, index) => {
-            const isHighlighted =
-              selectedFamily !== "all" &&
-              number.families.includes(selectedFamily);
+            const isHighlighted = highlightsNumber(number, familyFilter);
+            const raceFill =
+              number.state === "prime" && residueColours
+                ? residueFill(number.value, residueColours, isDark)
+                : undefined;
 
             return (
-              <Popover key={index}>
-                <PopoverTrigger asChild>
-                  <div
-                    className={`
-                      flex items-center justify-center h-10 w-10 rounded-md text-sm font-medium
+              <div
+                key={index}
+                onClick={() => setSelectedPrime(number.value)}
+                style={{ backgroundColor: raceFill }}
+                className={`
+                      relative overflow-hidden flex items-center justify-center h-10 w-10 rounded-md text-sm font-medium
                       ${
                         number.value === currentPrime &&
                         currentMultiple === 0 &&
@@ -448,94 +738,36 @@ export function SieveVisualizer() {
                           : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100"
                       }
                       cursor-pointer hover:ring-2 hover:ring-blue-400
+                      ${
+                        gapPairs?.has(number.value)
+                          ? "ring-2 ring-teal-500"
+                          : ""
+                      }
+                      ${
+                        goldbachPairs?.has(number.value)
+                          ? "ring-2 ring-amber-500"
+                          : ""
+                      }
                       ${
                         selectedPrime === number.value
                           ? "ring-2 ring-blue-500"
                           : ""
                       }
+                      ${
+                        inSegment(number.value)
+                          ? "outline outline-2 outline-offset-1 outline-sky-500"
+                          : ""
+                      }
+                      ${number.offWheel ? "opacity-30" : ""}
                     `}
-                  >
-                    {number.value}
-                  </div>
-                </PopoverTrigger>
-                <PopoverContent
-                  side="top"
-                  align="center"
-                  className="p-4 w-auto max-w-[200px]"
-                >
-                  <div className="space-y-3">
-                    <div className="flex items-center justify-between gap-2">
-                      <div className="text-lg font-semibold">
-                        {number.value}
-                      </div>
-                      <Badge
-                        variant={
-                          number.state === "prime"
-                            ? "default"
-                            : number.state === "composite"
-                            ? "destructive"
-                            : "outline"
-                        }
-                        className="text-xs"
-                      >
-                        {number.state === "prime"
-                          ? "Prime"
-                          : number.state === "composite"
-                          ? "Composite"
-                          : "Unmarked"}
-                      </Badge>
-                    </div>
-
-                    {number.gap && number.state === "prime" && (
-                      <div className="flex items-center justify-between text-sm">
-                        <span className="text-muted-foreground">Gap:</span>
-                        <span>{number.gap}</span>
-                      </div>
-                    )}
-
-                    {number.state === "composite" && (
-                      <div className="text-sm">
-                        <div className="text-muted-foreground mb-1">
-                          Factors:
-                        </div>
-                        <div className="flex flex-wrap gap-1">
-                          {findFactors(number.value).map((factor, i) => (
-                            <Badge
-                              key={i}
-                              variant="outline"
-                              className="text-xs"
-                            >
-                              {factor}
-                            </Badge>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-
-                    {number.families.length > 0 && (
-                      <div className="text-sm">
-                        <div className="text-muted-foreground mb-1">
-                          Special families:
-                        </div>
-                        <div className="flex flex-wrap gap-1">
-                          {number.families.map((family) => (
-                            <Badge
-                              key={family}
-                              variant="secondary"
-                              className="text-xs"
-                            >
-                              {family === "twin" && "Twin"}
-                              {family === "mersenne" && "Mersenne"}
-                              {family === "fermat" && "Fermat"}
-                              {family === "sophie-germain" && "Sophie Germain"}
-                            </Badge>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                </PopoverContent>
-              </Popover>
+              >
+                {number.value}
+                {isHighlighted && (
+                  <FamilyStripeBar
+                    colours={familyStripes(number, familyFilter)}
+                  />
+                )}
+              </div>
             );
           })}
         </div>
@@ -546,16 +778,18 @@ export function SieveVisualizer() {
     return (
       <div className={`grid ${gridClass} gap-2 justify-center`}>
         {filteredNumbers.map((number, index) => {
-          const isHighlighted =
-            selectedFamily !== "all" &&
-            number.families.includes(selectedFamily);
+          const isHighlighted = highlightsNumber(number, familyFilter);
+          const raceFill =
+            number.state === "prime" && residueColours
+              ? residueFill(number.value, residueColours, isDark)
+              : undefined;
 
           return (
-            <Popover key={index}>
-              <PopoverTrigger asChild>
-                <motion.div
-                  className={`
-                    flex items-center justify-center h-10 w-10 rounded-md text-sm font-medium
+            <motion.div
+              key={index}
+              onClick={() => setSelectedPrime(number.value)}
+              className={`
+                    relative overflow-hidden flex items-center justify-center h-10 w-10 rounded-md text-sm font-medium
                     ${
                       number.value === currentPrime &&
                       currentMultiple === 0 &&
@@ -578,100 +812,41 @@ export function SieveVisualizer() {
                         : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100"
                     }
                     cursor-pointer hover:ring-2 hover:ring-blue-400
+                    ${gapPairs?.has(number.value) ? "ring-2 ring-teal-500" : ""}
+                    ${
+                      goldbachPairs?.has(number.value)
+                        ? "ring-2 ring-amber-500"
+                        : ""
+                    }
                     ${
                       selectedPrime === number.value
                         ? "ring-2 ring-blue-500"
                         : ""
                     }
+                    ${
+                      inSegment(number.value)
+                        ? "outline outline-2 outline-offset-1 outline-sky-500"
+                        : ""
+                    }
+                    ${number.offWheel ? "opacity-30" : ""}
                   `}
-                  initial={{ opacity: 0.6, scale: 0.9 }}
-                  animate={{
-                    opacity: 1,
-                    scale: 1,
-                    backgroundColor:
-                      number.state === "unmarked"
-                        ? "#f1f5f9"
-                        : number.state === "prime"
-                        ? isHighlighted
-                          ? "#e9d5ff"
-                          : "#dcfce7"
-                        : "#fee2e2",
-                  }}
-                  transition={{ duration: 0.2 }}
-                >
-                  {number.value}
-                </motion.div>
-              </PopoverTrigger>
-              <PopoverContent
-                side="top"
-                align="center"
-                className="p-4 w-auto max-w-[200px]"
-              >
-                <div className="space-y-3">
-                  <div className="flex items-center justify-between gap-2">
-                    <div className="text-lg font-semibold">{number.value}</div>
-                    <Badge
-                      variant={
-                        number.state === "prime"
-                          ? "default"
-                          : number.state === "composite"
-                          ? "destructive"
-                          : "outline"
-                      }
-                      className="text-xs"
-                    >
-                      {number.state === "prime"
-                        ? "Prime"
-                        : number.state === "composite"
-                        ? "Composite"
-                        : "Unmarked"}
-                    </Badge>
-                  </div>
-
-                  {number.gap && number.state === "prime" && (
-                    <div className="flex items-center justify-between text-sm">
-                      <span className="text-muted-foreground">Gap:</span>
-                      <span>{number.gap}</span>
-                    </div>
-                  )}
-
-                  {number.state === "composite" && (
-                    <div className="text-sm">
-                      <div className="text-muted-foreground mb-1">Factors:</div>
-                      <div className="flex flex-wrap gap-1">
-                        {findFactors(number.value).map((factor, i) => (
-                          <Badge key={i} variant="outline" className="text-xs">
-                            {factor}
-                          </Badge>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {number.families.length > 0 && (
-                    <div className="text-sm">
-                      <div className="text-muted-foreground mb-1">
-                        Special families:
-                      </div>
-                      <div className="flex flex-wrap gap-1">
-                        {number.families.map((family) => (
-                          <Badge
-                            key={family}
-                            variant="secondary"
-                            className="text-xs"
-                          >
-                            {family === "twin" && "Twin"}
-                            {family === "mersenne" && "Mersenne"}
-                            {family === "fermat" && "Fermat"}
-                            {family === "sophie-germain" && "Sophie Germain"}
-                          </Badge>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </PopoverContent>
-            </Popover>
+              initial={{ opacity: 0.6, scale: 0.9 }}
+              animate={{
+                opacity: 1,
+                scale: 1,
+                backgroundColor:
+                  raceFill ??
+                  cellColors(number, isHighlighted, cellPalette(isDark)).fill,
+              }}
+              transition={{ duration: 0.2 }}
+            >
+              {number.value}
+              {isHighlighted && (
+                <FamilyStripeBar
+                  colours={familyStripes(number, familyFilter)}
+                />
+              )}
+            </motion.div>
           );
         })}
       </div>
@@ -679,12 +854,18 @@ export function SieveVisualizer() {
   }, [
     filteredNumbers,
     getGridColumns,
+    modulus,
     currentPrime,
     currentMultiple,
     isComplete,
-    selectedFamily,
+    familyFilter,
     selectedPrime,
-    findFactors,
+    segment,
+    inSegment,
+    gapPairs,
+    goldbachPairs,
+    residueColours,
+    isDark,
   ]);
 
   return (
@@ -692,416 +873,1126 @@ export function SieveVisualizer() {
       <Card className="w-full max-w-4xl">
         <CardContent className="p-6">
           <div className="flex flex-col gap-6">
-            <div className="flex justify-between items-center">
-              <h2 className="text-xl font-semibold">Sieve of Eratosthenes</h2>
-              <Popover>
-                <PopoverTrigger asChild>
+            {resumeOffer && (
+              <div className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg bg-muted/50 text-sm">
+                <span>
+                  Resume where you left off? Step {resumeOffer.step} of{" "}
+                  {resumeOffer.totalSteps} of the{" "}
+                  {resumeOffer.settings.mode === "segmented"
+                    ? "Segmented Sieve of Eratosthenes"
+                    : SIEVE_ALGORITHMS[resumeOffer.settings.algorithm]
+                        .label}{" "}
+                  up to {resumeOffer.settings.maxNumber.toLocaleString()}
+                  {resumeOffer.savedAt > 0 &&
+                    `, saved ${new Date(resumeOffer.savedAt).toLocaleString()}`}
+                  .
+                </span>
+                <div className="flex items-center gap-2">
+                  <Button size="sm" onClick={() => resumeSession(resumeOffer)}>
+                    Resume
+                  </Button>
                   <Button
-                    variant="ghost"
                     size="sm"
-                    className="flex items-center gap-1"
+                    variant="ghost"
+                    onClick={() => setResumeOffer(null)}
                   >
-                    <Info className="h-4 w-4" />
-                    <span>How it works</span>
+                    Start fresh
                   </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-80 p-4">
-                  <h3 className="font-medium mb-2">
-                    How the Sieve of Eratosthenes Works:
-                  </h3>
-                  <ol className="list-decimal pl-5 space-y-1">
-                    <li>
-                      Start with all numbers from 2 to n marked as potential
-                      primes.
-                    </li>
-                    <li>
-                      Take the smallest unmarked number (starting with 2), mark
-                      it as prime.
-                    </li>
-                    <li>
-                      Mark all multiples of that prime as composite (not prime).
-                    </li>
-                    <li>
-                      Move to the next unmarked number and repeat steps 2-3.
-                    </li>
-                    <li>
-                      When all numbers have been processed, the remaining
-                      unmarked numbers are prime.
-                    </li>
-                  </ol>
-                  <p className="mt-2 text-muted-foreground">
-                    This algorithm efficiently finds all prime numbers up to any
-                    given limit by iteratively marking the multiples of each
-                    prime, starting from 2.
-                  </p>
-                </PopoverContent>
-              </Popover>
-            </div>
-
-            <div className="flex flex-col gap-2">
-              <div className="flex justify-between">
-                <span className="text-sm font-medium">
-                  Maximum Number: {maxNumber}
-                </span>
-              </div>
-              <Slider
-                value={[maxNumber]}
-                min={10}
-                max={500}
-                step={10}
-                onValueChange={(value) => setMaxNumber(value[0])}
-                disabled={isRunning}
-              />
-              <p className="text-xs text-muted-foreground">10-500 numbers</p>
-            </div>
-
-            <div className="flex flex-col gap-2">
-              <div className="flex justify-between">
-                <span className="text-sm font-medium">Animation Speed</span>
+                </div>
               </div>
-              <Slider
-                value={[speed]}
-                min={1}
-                max={300}
-                step={5}
-                onValueChange={(value) => setSpeed(value[0])}
-              />
-              <div className="flex justify-between text-xs text-muted-foreground">
-                <span>Slow</span>
-                <span>Fast</span>
+            )}
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-semibold">{title}</h2>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={themePreference}
+                  onValueChange={(value) => setTheme(value as ThemePreference)}
+                >
+                  <SelectTrigger className="w-[110px]" aria-label="Theme">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="system">System</SelectItem>
+                    <SelectItem value="light">Light</SelectItem>
+                    <SelectItem value="dark">Dark</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={mode}
+                  onValueChange={(value) => {
+                    setIsRunning(false);
+                    setMode(value as SieveMode);
+                    if (value === "steps") {
+                      setMaxNumber((n) => Math.min(n, maxStepLimit(algorithm)));
+                    }
+                  }}
+                >
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="steps">Step by step</SelectItem>
+                    <SelectItem value="segmented">Segmented</SelectItem>
+                    <SelectItem value="large">Large range</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="flex items-center gap-1"
+                    >
+                      <Info className="h-4 w-4" />
+                      <span>How it works</span>
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-80 p-4">
+                    <h3 className="font-medium mb-2">{explanation.title}</h3>
+                    <ol className="list-decimal pl-5 space-y-1">
+                      {explanation.steps.map((text, i) => (
+                        <li key={i}>{text}</li>
+                      ))}
+                    </ol>
+                    <p className="mt-2 text-muted-foreground">
+                      {explanation.summary}
+                    </p>
+                  </PopoverContent>
+                </Popover>
               </div>
             </div>
 
-            <div className="flex justify-between items-center">
-              <div className="flex justify-center gap-2">
-                <Button
-                  variant="outline"
-                  size="icon"
-                  onClick={() => setIsRunning(!isRunning)}
-                  disabled={isComplete}
-                >
-                  {isRunning ? (
-                    <Pause className="h-4 w-4" />
+            {mode === "large" ? (
+              <div className="flex flex-col gap-4">
+                <div className="flex flex-col gap-2">
+                  <div className="flex justify-between">
+                    <span className="text-sm font-medium">
+                      Maximum Number: {largeLimit.toLocaleString()}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[largeLimit]}
+                    min={10_000}
+                    max={LARGE_SIEVE_MAX}
+                    step={10_000}
+                    onValueChange={(value) => setLargeLimit(value[0])}
+                    disabled={largeSieve.isRunning}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Up to {LARGE_SIEVE_MAX.toLocaleString()} numbers, sieved in
+                    the background
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-4">
+                  {largeSieve.isRunning ? (
+                    <Button variant="outline" onClick={largeSieve.cancel}>
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
                   ) : (
-                    <Play className="h-4 w-4" />
+                    <Button
+                      onClick={() =>
+                        largeSieve.run(largeLimit, customFamilies.families)
+                      }
+                    >
+                      <Cpu className="h-4 w-4 mr-2" />
+                      Run sieve
+                    </Button>
                   )}
-                </Button>
-                <Button
-                  variant="outline"
-                  size="icon"
-                  onClick={performStep}
-                  disabled={isRunning || isComplete}
-                >
-                  <StepForward className="h-4 w-4" />
-                </Button>
-                <Button variant="outline" size="icon" onClick={resetSieve}>
-                  <RotateCcw className="h-4 w-4" />
-                </Button>
+                  {largeSieve.progress && (
+                    <div className="flex-1 flex flex-col gap-1">
+                      <div className="h-2 w-full rounded-full bg-secondary overflow-hidden">
+                        <div
+                          className="h-full bg-primary transition-all"
+                          style={{
+                            width: `${largeSieve.progress.fraction * 100}%`,
+                          }}
+                        />
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {largeSieve.progress.phase === "sieving"
+                          ? "Sieving"
+                          : "Analysing results"}{" "}
+                        {Math.round(largeSieve.progress.fraction * 100)}%
+                      </span>
+                    </div>
+                  )}
+                  {largeSieve.error && !largeSieve.isRunning && (
+                    <span className="text-sm text-destructive">
+                      The sieve failed: {largeSieve.error}
+                    </span>
+                  )}
+                  {largeSieve.result && !largeSieve.isRunning && (
+                    <span className="text-sm text-muted-foreground">
+                      Found{" "}
+                      {largeSieve.result.stats.primeCount.toLocaleString()}{" "}
+                      primes up to {largeSieve.result.limit.toLocaleString()}
+                    </span>
+                  )}
+                </div>
               </div>
+            ) : (
+              <>
+                <div className="flex flex-col gap-2">
+                  <div className="flex justify-between">
+                    <span className="text-sm font-medium">
+                      Maximum Number: {limitDraft ?? maxNumber}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[limitDraft ?? maxNumber]}
+                    min={MIN_STEP_LIMIT}
+                    max={stepLimit}
+                    step={10}
+                    onValueChange={(value) => setLimitDraft(value[0])}
+                    onValueCommit={(value) => {
+                      setLimitDraft(null);
+                      setMaxNumber(value[0]);
+                    }}
+                    disabled={isRunning}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {MIN_STEP_LIMIT}-{stepLimit.toLocaleString()} numbers
+                    {stepLimit < MAX_STEP_LIMIT &&
+                      `. ${algorithmInfo.label} records far more steps than the sieves.`}
+                  </p>
+                </div>
 
-              <div className="flex items-center gap-2">
-                <span className="text-sm font-medium">Filter:</span>
+                {showOptimisations && (
+                  <div className="flex flex-wrap items-center gap-6">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <Switch
+                        checked={optimisations.startAtSquare}
+                        onCheckedChange={(checked) =>
+                          setOptimisations((o) => ({
+                            ...o,
+                            startAtSquare: checked,
+                          }))
+                        }
+                        disabled={isRunning}
+                      />
+                      {OPTIMISATION_LABELS.startAtSquare}
+                    </label>
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <Switch
+                        checked={optimisations.stopAtRoot}
+                        onCheckedChange={(checked) =>
+                          setOptimisations((o) => ({
+                            ...o,
+                            stopAtRoot: checked,
+                          }))
+                        }
+                        disabled={isRunning}
+                      />
+                      {OPTIMISATION_LABELS.stopAtRoot}
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">
+                        {OPTIMISATION_LABELS.wheel}:
+                      </span>
+                      <Select
+                        value={optimisations.wheel}
+                        onValueChange={(value) =>
+                          setOptimisations((o) => ({
+                            ...o,
+                            wheel: value as Wheel,
+                          }))
+                        }
+                        disabled={isRunning}
+                      >
+                        <SelectTrigger className="w-[160px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="odd">Odd numbers only</SelectItem>
+                          <SelectItem value="2-3-5">2·3·5 wheel</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                {mode === "segmented" && (
+                  <div className="flex flex-col gap-2">
+                    <div className="flex justify-between">
+                      <span className="text-sm font-medium">
+                        Segment Size: {segmentSize}
+                      </span>
+                    </div>
+                    <Slider
+                      value={[segmentSize]}
+                      min={MIN_SEGMENT_SIZE}
+                      max={MAX_SEGMENT_SIZE}
+                      step={5}
+                      onValueChange={(value) => setSegmentSize(value[0])}
+                      disabled={isRunning}
+                    />
+                  </div>
+                )}
+
+                <div className="flex flex-col gap-2">
+                  <div className="flex justify-between">
+                    <span className="text-sm font-medium">Animation Speed</span>
+                  </div>
+                  <Slider
+                    value={[speed]}
+                    min={MIN_SPEED}
+                    max={MAX_SPEED}
+                    step={5}
+                    onValueChange={(value) => setSpeed(value[0])}
+                  />
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>Slow</span>
+                    <span>Fast</span>
+                  </div>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                  <div className="flex justify-between">
+                    <span className="text-sm font-medium">
+                      Step {step} of {totalSteps}
+                    </span>
+                    <span className="text-sm text-muted-foreground">
+                      {describeStep(history.steps[step - 1])}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[step]}
+                    min={0}
+                    max={totalSteps}
+                    step={1}
+                    onValueChange={(value) => goToStep(value[0])}
+                  />
+                </div>
+
+                {mode === "segmented" && (
+                  <div className="p-3 border rounded-lg text-sm space-y-1">
+                    <div>
+                      <span className="text-muted-foreground">
+                        Base primes ≤ √{maxNumber} ≈ {segmentRoot}:
+                      </span>{" "}
+                      {basePrimes.join(", ") || "none"}
+                    </div>
+                    {segment ? (
+                      <>
+                        <div>
+                          <span className="text-muted-foreground">
+                            Active window:
+                          </span>{" "}
+                          [{segment.low}, {segment.high}]
+                        </div>
+                        {segment.offset && (
+                          <div>
+                            <span className="text-muted-foreground">
+                              First multiple of {segment.offset.prime}:
+                            </span>{" "}
+                            ⌈{segment.low}/{segment.offset.prime}⌉ ×{" "}
+                            {segment.offset.prime} ={" "}
+                            {segment.offset.firstMultiple}
+                            {segment.offset.start !==
+                              segment.offset.firstMultiple &&
+                              `, starting at ${segment.offset.prime}² = ${segment.offset.start}`}
+                          </div>
+                        )}
+                      </>
+                    ) : matchesClassic !== null ? (
+                      <div>
+                        {matchesClassic
+                          ? "Result matches the classic sieve exactly."
+                          : "Result differs from the classic sieve."}
+                      </div>
+                    ) : (
+                      <div className="text-muted-foreground">
+                        Finding the base primes with the classic sieve first.
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex justify-between items-center">
+                  <div className="flex justify-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => goToStep(step - 1)}
+                      disabled={isRunning || step === 0}
+                    >
+                      <StepBack className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setIsRunning(!isRunning)}
+                      disabled={isComplete}
+                    >
+                      {isRunning ? (
+                        <Pause className="h-4 w-4" />
+                      ) : (
+                        <Play className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={performStep}
+                      disabled={isRunning || isComplete}
+                    >
+                      <StepForward className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" onClick={resetSieve}>
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <ExportMenu
+                      numbers={numbers}
+                      algorithm={mode === "segmented" ? "segmented" : algorithm}
+                      step={step}
+                      totalSteps={totalSteps}
+                      complete={isComplete}
+                      stats={primeStats}
+                    />
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {mode === "steps" && (
+                      <>
+                        <span className="text-sm font-medium">Algorithm:</span>
+                        <Select
+                          value={algorithm}
+                          onValueChange={(value) => {
+                            const next = value as SieveAlgorithm;
+                            setAlgorithm(next);
+                            setMaxNumber((n) =>
+                              Math.min(n, maxStepLimit(next))
+                            );
+                          }}
+                          disabled={isRunning}
+                        >
+                          <SelectTrigger className="w-[200px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.values(SIEVE_ALGORITHMS).map((info) => (
+                              <SelectItem key={info.id} value={info.id}>
+                                {info.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </>
+                    )}
+                    <span className="text-sm font-medium">Filter:</span>
+                    <FamilyFilterPicker
+                      families={primeFamilies}
+                      filter={familyFilter}
+                      onFilterChange={setFamilyFilter}
+                    />
+                    <CustomFamilyEditor
+                      families={customFamilies.families}
+                      onAdd={(name, expression) => {
+                        const id = customFamilies.add(name, expression);
+                        setFamilyFilter((filter) => ({
+                          ...filter,
+                          include: [...filter.include, id],
+                        }));
+                      }}
+                      onRemove={(id) => {
+                        customFamilies.remove(id);
+                        setFamilyFilter((filter) =>
+                          pruneFamilyFilter(filter, (family) => family !== id)
+                        );
+                      }}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div
+        className={`w-full flex flex-col lg:flex-row lg:items-start gap-4 ${
+          selectedNumber ? "max-w-4xl lg:max-w-6xl" : "max-w-4xl"
+        }`}
+      >
+        <Tabs
+          value={tab}
+          onValueChange={(value) => setTab(value as VisualizerTab)}
+          className="w-full min-w-0 flex-1"
+        >
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="grid">Sieve Visualization</TabsTrigger>
+            <TabsTrigger value="spiral">Spirals</TabsTrigger>
+            <TabsTrigger value="stats">Prime Distribution</TabsTrigger>
+            <TabsTrigger value="functions">Arithmetic Functions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="grid" className="space-y-4">
+            {mode !== "large" && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium">Columns:</span>
                 <Select
-                  value={selectedFamily}
+                  value={columnLayout}
                   onValueChange={(value) =>
-                    setSelectedFamily(value as PrimeFamily)
+                    setColumnLayout(value as ColumnLayout)
                   }
                 >
                   <SelectTrigger className="w-[180px]">
-                    <SelectValue placeholder="All Primes" />
+                    <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Primes</SelectItem>
-                    <SelectItem value="twin">Twin Primes</SelectItem>
-                    <SelectItem value="mersenne">Mersenne Primes</SelectItem>
-                    <SelectItem value="fermat">Fermat Primes</SelectItem>
-                    <SelectItem value="sophie-germain">
-                      Sophie Germain Primes
-                    </SelectItem>
+                    <SelectItem value="auto">Fit to width</SelectItem>
+                    {RESIDUE_PRESETS.map((preset) => (
+                      <SelectItem key={preset} value={`${preset}`}>
+                        Residues mod {preset}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="custom">Custom modulus</SelectItem>
                   </SelectContent>
                 </Select>
+                {columnLayout === "custom" && (
+                  <Input
+                    type="number"
+                    aria-label="Modulus"
+                    className="h-10 w-24"
+                    min={MIN_MODULUS}
+                    max={MAX_MODULUS}
+                    defaultValue={customModulus}
+                    onChange={(event) => {
+                      const value = Number.parseInt(event.target.value, 10);
+                      if (Number.isFinite(value)) {
+                        setCustomModulus(clampModulus(value));
+                      }
+                    }}
+                  />
+                )}
+                {modulus && (
+                  <span className="text-sm text-muted-foreground">
+                    Shaded columns are coprime to {modulus}. Every prime that
+                    does not divide {modulus} lands in one of them.
+                  </span>
+                )}
+                <div className="ml-auto">
+                  <ImageExportMenu
+                    fileName={`${imageName}-grid`}
+                    render={() =>
+                      gridSvg(deferredNumbers, {
+                        ...imageOptions,
+                        layout: modulus
+                          ? {
+                              kind: "columns",
+                              columns: modulus,
+                              residues: true,
+                            }
+                          : {
+                              kind: "columns",
+                              columns: imageColumns(deferredNumbers.length),
+                              residues: false,
+                            },
+                      })
+                    }
+                  />
+                </div>
               </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      <Tabs defaultValue="grid" className="w-full max-w-4xl">
-        <TabsList className="grid w-full grid-cols-2">
-          <TabsTrigger value="grid">Sieve Visualization</TabsTrigger>
-          <TabsTrigger value="stats">Prime Distribution</TabsTrigger>
-        </TabsList>
-
-        <TabsContent value="grid" className="space-y-4">
-          <div className="w-full overflow-auto p-4 border rounded-lg bg-background">
-            {renderGrid}
-          </div>
+            )}
 
-          <div className="flex flex-wrap gap-4 justify-center">
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-muted rounded"></div>
-              <span className="text-sm">Unmarked</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-green-100 dark:bg-green-900 rounded"></div>
-              <span className="text-sm">Prime</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-red-100 dark:bg-red-900 rounded"></div>
-              <span className="text-sm">Composite</span>
+            <div className="w-full overflow-auto p-4 border rounded-lg bg-background">
+              {mode === "large" ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  The grid is not drawn in large-range mode. See the Prime
+                  Distribution tab for the results.
+                </p>
+              ) : (
+                renderGrid
+              )}
             </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded ring-2 ring-primary"></div>
-              <span className="text-sm">Current Prime</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded ring-2 ring-orange-500"></div>
-              <span className="text-sm">Current Multiple</span>
+
+            <div className="flex flex-wrap gap-4 justify-center">
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 bg-muted rounded"></div>
+                <span className="text-sm">Unmarked</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 bg-green-100 dark:bg-green-900 rounded"></div>
+                <span className="text-sm">Prime</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 bg-red-100 dark:bg-red-900 rounded"></div>
+                <span className="text-sm">Composite</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded ring-2 ring-primary"></div>
+                <span className="text-sm">Current Prime</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded ring-2 ring-orange-500"></div>
+                <span className="text-sm">Current Multiple</span>
+              </div>
+              {isFamilyFilterActive(familyFilter) && (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 bg-purple-200 dark:bg-purple-900 rounded ring-2 ring-purple-500"></div>
+                  <span className="text-sm">
+                    Highlighted:{" "}
+                    {describeFamilyFilter(familyFilter, familyLabel)}
+                  </span>
+                </div>
+              )}
+              {familyFilter.include.map((family) => (
+                <div key={family} className="flex items-center gap-2">
+                  <div
+                    className="w-4 h-1.5 rounded-sm"
+                    style={{
+                      backgroundColor: familyColour(familyFilter, family),
+                    }}
+                  ></div>
+                  <span className="text-sm">{familyLabel(family)}</span>
+                </div>
+              ))}
+              {gapPairs && (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 rounded ring-2 ring-teal-500"></div>
+                  <span className="text-sm">Gap of {selectedGap}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5"
+                    aria-label="Clear gap highlight"
+                    onClick={() => setSelectedGap(null)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+              {goldbachPairs && (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 rounded ring-2 ring-amber-500"></div>
+                  <span className="text-sm">
+                    Goldbach pairs of {goldbachNumber}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5"
+                    aria-label="Clear Goldbach highlight"
+                    onClick={() => setGoldbachNumber(null)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+              {residueColours &&
+                raceClasses.map((residue) => (
+                  <div key={residue} className="flex items-center gap-2">
+                    <div
+                      className="w-4 h-4 rounded"
+                      style={{
+                        backgroundColor: residueFill(
+                          residue,
+                          residueColours,
+                          isDark
+                        ),
+                      }}
+                    ></div>
+                    <span className="text-sm">
+                      {residue} mod {raceModulus}
+                    </span>
+                  </div>
+                ))}
             </div>
-            {selectedFamily !== "all" && (
+          </TabsContent>
+
+          <TabsContent value="spiral">
+            <div className="w-full p-4 border rounded-lg bg-background space-y-4">
               <div className="flex items-center gap-2">
-                <div className="w-4 h-4 bg-purple-200 dark:bg-purple-900 rounded ring-2 ring-purple-500"></div>
-                <span className="text-sm">Highlighted Prime</span>
+                <span className="text-sm font-medium">Layout:</span>
+                <Select
+                  value={spiralLayout}
+                  onValueChange={(value) =>
+                    setSpiralLayout(value as SpiralLayout)
+                  }
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ulam">Ulam spiral</SelectItem>
+                    <SelectItem value="sacks">Sacks spiral</SelectItem>
+                    <SelectItem value="polar">
+                      Polar plot (r = θ = n)
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                {mode !== "large" && (
+                  <div className="ml-auto">
+                    <ImageExportMenu
+                      fileName={`${imageName}-${spiralLayout}`}
+                      render={() =>
+                        gridSvg(deferredNumbers, {
+                          ...imageOptions,
+                          layout: { kind: spiralLayout },
+                        })
+                      }
+                    />
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </TabsContent>
-
-        <TabsContent value="stats">
-          <Card>
-            <CardContent className="pt-6">
-              <div className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div className="p-4 border rounded-lg">
-                    <div className="text-sm text-muted-foreground">
-                      Prime Count π(n)
+              {mode === "large" ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  The spirals are not drawn in large-range mode. Switch to step
+                  by step to sieve onto them.
+                </p>
+              ) : spiralLayout === "ulam" ? (
+                <UlamSpiral
+                  numbers={filteredNumbers}
+                  currentPrime={currentPrime}
+                  currentMultiple={currentMultiple}
+                  isComplete={isComplete}
+                  familyFilter={familyFilter}
+                  selectedPrime={selectedPrime}
+                  onSelectedPrimeChange={setSelectedPrime}
+                />
+              ) : (
+                <PrimePlot
+                  layout={spiralLayout}
+                  numbers={filteredNumbers}
+                  isComplete={isComplete}
+                  currentPrime={currentPrime}
+                  familyFilter={familyFilter}
+                  selectedPrime={selectedPrime}
+                  onSelectedPrimeChange={setSelectedPrime}
+                />
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="stats">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-muted-foreground">
+                        Prime Count π(n)
+                      </div>
+                      <div className="text-2xl font-bold">
+                        {stats.primeCount}
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        vs. estimated {Math.round(stats.estimatedCount)}
+                      </div>
                     </div>
-                    <div className="text-2xl font-bold">
-                      {primeStats.primeCount}
+
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-muted-foreground">
+                        Prime Density
+                      </div>
+                      <div className="text-2xl font-bold">
+                        {(stats.density * 100).toFixed(2)}%
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {stats.primeCount} primes in {statsLimit} numbers
+                      </div>
                     </div>
-                    <div className="text-xs text-muted-foreground mt-1">
-                      vs. estimated {Math.round(primeStats.estimatedCount)}
+
+                    <div className="p-4 border rounded-lg">
+                      <div className="text-sm text-muted-foreground">
+                        Prime Gaps
+                      </div>
+                      <div className="text-2xl font-bold">
+                        {stats.avgGap.toFixed(2)}
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Average gap (max: {stats.maxGap})
+                      </div>
                     </div>
                   </div>
 
-                  <div className="p-4 border rounded-lg">
-                    <div className="text-sm text-muted-foreground">
-                      Prime Density
-                    </div>
-                    <div className="text-2xl font-bold">
-                      {(primeStats.density * 100).toFixed(2)}%
-                    </div>
-                    <div className="text-xs text-muted-foreground mt-1">
-                      {primeStats.primeCount} primes in {maxNumber} numbers
+                  <div className="border rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-medium">
+                        Prime Number Theorem Comparison
+                      </h3>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                          >
+                            <Info className="h-4 w-4" />
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent
+                          side="left"
+                          align="center"
+                          className="max-w-xs"
+                        >
+                          <p className="text-sm">
+                            The Prime Number Theorem states that π(n), the
+                            number of primes less than or equal to n, is
+                            approximately n/ln(n) for large n.
+                          </p>
+                          <p className="text-sm mt-2">
+                            The logarithmic integral li(n) is a far closer
+                            estimate, and Riemann&apos;s R(n), which corrects
+                            li(n) for prime powers, is closer still.
+                          </p>
+                        </PopoverContent>
+                      </Popover>
                     </div>
+
+                    <PrimeCountingChart data={stats.chartData} />
                   </div>
 
-                  <div className="p-4 border rounded-lg">
-                    <div className="text-sm text-muted-foreground">
-                      Prime Gaps
-                    </div>
-                    <div className="text-2xl font-bold">
-                      {primeStats.avgGap.toFixed(2)}
-                    </div>
-                    <div className="text-xs text-muted-foreground mt-1">
-                      Average gap (max: {primeStats.maxGap})
-                    </div>
+                  <div className="border rounded-lg p-4">
+                    <h3 className="text-lg font-medium mb-1">
+                      π(x) from the Zeros of ζ
+                    </h3>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Riemann&apos;s explicit formula writes π(x) as R(x) minus
+                      one oscillating term for each non-trivial zero ½ ± iγ of
+                      the zeta function. Add zeros to watch the smooth curve
+                      sharpen into the staircase.
+                    </p>
+                    <ExplicitFormulaChart
+                      primes={
+                        mode === "large"
+                          ? largeSieve.result?.primes ?? []
+                          : boardPrimes
+                      }
+                      limit={statsLimit}
+                    />
                   </div>
-                </div>
 
-                <div className="border rounded-lg p-4">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-medium">
-                      Prime Number Theorem Comparison
+                  <div className="border rounded-lg p-4">
+                    <h3 className="text-lg font-medium mb-1">
+                      Goldbach Partitions
                     </h3>
-                    <Popover>
-                      <PopoverTrigger asChild>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 w-8 p-0"
-                        >
-                          <Info className="h-4 w-4" />
-                        </Button>
-                      </PopoverTrigger>
-                      <PopoverContent
-                        side="left"
-                        align="center"
-                        className="max-w-xs"
-                      >
-                        <p className="text-sm">
-                          The Prime Number Theorem states that π(n), the number
-                          of primes less than or equal to n, is approximately
-                          n/ln(n) for large n.
-                        </p>
-                      </PopoverContent>
-                    </Popover>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Goldbach conjectured that every even number from 4 on is a
+                      sum of two primes. Counting the ways for each one draws a
+                      widening comet, and its lowest edge never comes back down
+                      to zero.
+                    </p>
+                    <GoldbachExplorer
+                      primes={
+                        mode === "large"
+                          ? largeSieve.result?.primes ?? []
+                          : boardPrimes
+                      }
+                      limit={statsLimit}
+                      selected={goldbachNumber}
+                      onSelect={setGoldbachNumber}
+                      highlightedCount={
+                        mode === "large" ? undefined : goldbachPairs?.size ?? 0
+                      }
+                    />
                   </div>
 
-                  <div className="h-[300px]">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <LineChart
-                        data={primeStats.chartData}
-                        margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-                      >
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis
-                          dataKey="n"
-                          label={{
-                            value: "n",
-                            position: "insideBottomRight",
-                            offset: -5,
-                          }}
-                        />
-                        <YAxis
-                          label={{
-                            value: "Count of Primes",
-                            angle: -90,
-                            position: "insideLeft",
-                          }}
-                        />
-                        <Tooltip formatter={(value) => [value, ""]} />
-                        <Legend />
-                        <Line
-                          type="monotone"
-                          dataKey="actual"
-                          name="Actual π(n)"
-                          stroke="#22c55e"
-                          strokeWidth={2}
-                          dot={{ r: 3 }}
-                          activeDot={{ r: 5 }}
-                        />
-                        <Line
-                          type="monotone"
-                          dataKey="estimated"
-                          name="Estimated n/ln(n)"
-                          stroke="#3b82f6"
-                          strokeWidth={2}
-                          strokeDasharray="5 5"
-                          dot={{ r: 3 }}
-                        />
-                      </LineChart>
-                    </ResponsiveContainer>
+                  <div className="border rounded-lg p-4">
+                    <h3 className="text-lg font-medium mb-1">Prime Races</h3>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Each reduced residue class mod m gets the same share of
+                      primes in the long run, yet one class can stay ahead for a
+                      very long stretch. Primes 3 mod 4 lead 1 mod 4 until
+                      26,861.
+                    </p>
+                    <PrimeRaceChart
+                      primes={
+                        mode === "large"
+                          ? largeSieve.result?.primes ?? []
+                          : boardPrimes
+                      }
+                      limit={statsLimit}
+                      modulus={raceModulus}
+                      onModulusChange={setRaceModulus}
+                      colourGrid={colourByResidue}
+                      onColourGridChange={
+                        mode === "large" ? undefined : setColourByResidue
+                      }
+                    />
                   </div>
-                </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="border rounded-lg p-4">
-                    <h3 className="text-lg font-medium mb-2">
-                      Special Prime Families
-                    </h3>
-                    <div className="space-y-3">
-                      <div>
-                        <div className="flex items-center gap-2">
-                          <Badge variant="outline">Twin Primes</Badge>
-                          <span className="text-sm text-muted-foreground">
-                            {
-                              numbers.filter((n) => n.families.includes("twin"))
-                                .length
-                            }{" "}
-                            found
-                          </span>
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Pairs of primes that differ by 2 (p, p+2)
-                        </p>
-                      </div>
+                    <h3 className="text-lg font-medium mb-4">Prime Gaps</h3>
+                    <PrimeGapAnalysis
+                      analysis={gapAnalysis}
+                      selectedGap={selectedGap}
+                      highlightedCount={gapPairs?.size ?? 0}
+                      onSelectGap={
+                        mode === "large" ? undefined : setSelectedGap
+                      }
+                    />
+                  </div>
 
-                      <div>
-                        <div className="flex items-center gap-2">
-                          <Badge variant="outline">Mersenne Primes</Badge>
-                          <span className="text-sm text-muted-foreground">
-                            {
-                              numbers.filter((n) =>
-                                n.families.includes("mersenne")
-                              ).length
-                            }{" "}
-                            found
-                          </span>
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Primes of the form 2^n - 1
-                        </p>
+                  {mode !== "large" && (
+                    <div className="border rounded-lg p-4">
+                      <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-lg font-medium">Work Done</h3>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                            >
+                              <Info className="h-4 w-4" />
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent
+                            side="left"
+                            align="center"
+                            className="max-w-xs"
+                          >
+                            <p className="text-sm">
+                              The Sieve of Eratosthenes crosses out about n·ln
+                              ln n numbers in total: each prime p removes n/p
+                              multiples, and the sum of 1/p over primes up to n
+                              grows like ln ln n.
+                            </p>
+                          </PopoverContent>
+                        </Popover>
                       </div>
 
-                      <div>
-                        <div className="flex items-center gap-2">
-                          <Badge variant="outline">Fermat Primes</Badge>
-                          <span className="text-sm text-muted-foreground">
-                            {
-                              numbers.filter((n) =>
-                                n.families.includes("fermat")
-                              ).length
-                            }{" "}
-                            found
-                          </span>
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Primes of the form 2^(2^n) + 1
-                        </p>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                        {(
+                          [
+                            ["Cross-offs", operations.crossOffs],
+                            ["Redundant re-marks", operations.redundantMarks],
+                            ["Prime selections", operations.primeSelections],
+                            ["Array reads", operations.arrayReads],
+                          ] as const
+                        ).map(([label, value]) => (
+                          <div key={label}>
+                            <div className="text-sm text-muted-foreground">
+                              {label}
+                            </div>
+                            <div className="text-xl font-bold">
+                              {value.toLocaleString()}
+                            </div>
+                          </div>
+                        ))}
                       </div>
 
-                      <div>
-                        <div className="flex items-center gap-2">
-                          <Badge variant="outline">Sophie Germain Primes</Badge>
-                          <span className="text-sm text-muted-foreground">
-                            {
-                              numbers.filter((n) =>
-                                n.families.includes("sophie-germain")
-                              ).length
-                            }{" "}
-                            found
-                          </span>
+                      {optimisationReport && (
+                        <div className="mb-4 text-sm space-y-1">
+                          <div>
+                            <span className="text-muted-foreground">
+                              Textbook version:
+                            </span>{" "}
+                            {optimisationReport.textbook.crossOffs.toLocaleString()}{" "}
+                            cross-offs,{" "}
+                            {optimisationReport.textbook.arrayReads.toLocaleString()}{" "}
+                            reads
+                          </div>
+                          <div>
+                            <span className="text-muted-foreground">
+                              With optimisations:
+                            </span>{" "}
+                            {optimisationReport.optimised.crossOffs.toLocaleString()}{" "}
+                            cross-offs,{" "}
+                            {optimisationReport.optimised.arrayReads.toLocaleString()}{" "}
+                            reads
+                          </div>
+                          {optimisationReport.savings.map((saving) => (
+                            <div key={saving.optimisation}>
+                              <Badge variant="outline" className="mr-2">
+                                {OPTIMISATION_LABELS[saving.optimisation]}
+                              </Badge>
+                              saves {saving.crossOffs.toLocaleString()}{" "}
+                              cross-offs and{" "}
+                              {saving.arrayReads.toLocaleString()} reads
+                            </div>
+                          ))}
                         </div>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Primes p where 2p+1 is also prime
-                        </p>
+                      )}
+
+                      <div className="h-[250px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart
+                            data={complexityData}
+                            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                          >
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis
+                              dataKey="n"
+                              label={{
+                                value: "n",
+                                position: "insideBottomRight",
+                                offset: -5,
+                              }}
+                            />
+                            <YAxis
+                              label={{
+                                value: "Operations",
+                                angle: -90,
+                                position: "insideLeft",
+                              }}
+                            />
+                            <Tooltip formatter={(value) => [value, ""]} />
+                            <Legend />
+                            <Line
+                              type="monotone"
+                              dataKey="crossOffs"
+                              name="Cross-offs"
+                              stroke="#ef4444"
+                              strokeWidth={2}
+                              dot={{ r: 3 }}
+                            />
+                            <Line
+                              type="monotone"
+                              dataKey="redundantMarks"
+                              name="Redundant re-marks"
+                              stroke="#f97316"
+                              strokeWidth={2}
+                              dot={{ r: 3 }}
+                            />
+                            <Line
+                              type="monotone"
+                              dataKey="theoretical"
+                              name="n·ln ln n"
+                              stroke="#3b82f6"
+                              strokeWidth={2}
+                              strokeDasharray="5 5"
+                              dot={false}
+                            />
+                          </LineChart>
+                        </ResponsiveContainer>
                       </div>
                     </div>
-                  </div>
+                  )}
 
-                  <div className="border rounded-lg p-4">
-                    <h3 className="text-lg font-medium mb-2">
-                      Prime Distribution Insights
-                    </h3>
-                    <p className="text-sm text-muted-foreground mb-4">
-                      The distribution of prime numbers becomes less dense as
-                      numbers get larger, following the Prime Number Theorem.
-                    </p>
+                  {familySets && (
+                    <div className="border rounded-lg p-4">
+                      <h3 className="text-lg font-medium mb-2">
+                        Combined Families
+                      </h3>
+                      <p className="text-sm mb-4">
+                        <span className="font-medium">
+                          {describeFamilyFilter(familyFilter, familyLabel)}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {" "}
+                          matches {familySets.combined.toLocaleString()} of{" "}
+                          {primeStats.primeCount.toLocaleString()} primes
+                        </span>
+                      </p>
+                      <div className="text-sm text-muted-foreground mb-2">
+                        Overlaps (primes in exactly these families
+                        {familySets.compared.length > MAX_OVERLAP_FAMILIES &&
+                          `, first ${MAX_OVERLAP_FAMILIES} selected`}
+                        ):
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                        {familySets.overlaps.map((region) => (
+                          <div
+                            key={region.families.join()}
+                            className="flex justify-between gap-4"
+                          >
+                            <span>
+                              {region.families.map(familyLabel).join(" ∩ ")}
+                            </span>
+                            <span className="font-medium">
+                              {region.count.toLocaleString()}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
 
-                    <div className="space-y-2">
-                      <div>
-                        <div className="text-sm font-medium">Prime Density</div>
-                        <div className="text-xs text-muted-foreground">
-                          The density of primes decreases approximately as
-                          1/ln(n).
-                        </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="border rounded-lg p-4">
+                      <h3 className="text-lg font-medium mb-2">
+                        Special Prime Families
+                      </h3>
+                      <div className="space-y-3">
+                        {primeFamilies.map((family) => (
+                          <div key={family.id}>
+                            <div className="flex items-center gap-2">
+                              <Badge variant="outline">{family.label}</Badge>
+                              <span className="text-sm text-muted-foreground">
+                                {familyCounts[family.id] ?? 0} found
+                              </span>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {family.description}
+                            </p>
+                          </div>
+                        ))}
                       </div>
+                    </div>
 
-                      <div>
-                        <div className="text-sm font-medium">Prime Gaps</div>
-                        <div className="text-xs text-muted-foreground">
-                          The gaps between consecutive primes tend to increase
-                          as numbers get larger.
+                    <div className="border rounded-lg p-4">
+                      <h3 className="text-lg font-medium mb-2">
+                        Prime Distribution Insights
+                      </h3>
+                      <p className="text-sm text-muted-foreground mb-4">
+                        The distribution of prime numbers becomes less dense as
+                        numbers get larger, following the Prime Number Theorem.
+                      </p>
+
+                      <div className="space-y-2">
+                        <div>
+                          <div className="text-sm font-medium">
+                            Prime Density
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            The density of primes decreases approximately as
+                            1/ln(n).
+                          </div>
                         </div>
-                      </div>
 
-                      <div>
-                        <div className="text-sm font-medium">
-                          Largest Gap Found
+                        <div>
+                          <div className="text-sm font-medium">Prime Gaps</div>
+                          <div className="text-xs text-muted-foreground">
+                            The gaps between consecutive primes tend to increase
+                            as numbers get larger.
+                          </div>
                         </div>
-                        <div className="text-xs">
-                          {primeStats.maxGap} (between consecutive primes)
+
+                        <div>
+                          <div className="text-sm font-medium">
+                            Largest Gap Found
+                          </div>
+                          <div className="text-xs">
+                            {stats.maxGap} (between consecutive primes)
+                          </div>
                         </div>
                       </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="functions">
+            <ArithmeticCharts limit={deferredMaxNumber} />
+          </TabsContent>
+        </Tabs>
+
+        {selectedNumber && (
+          <aside className="w-full lg:w-80 shrink-0 lg:sticky lg:top-4 lg:max-h-[calc(100vh-2rem)] lg:overflow-y-auto">
+            <NumberInspector
+              number={selectedNumber}
+              limit={maxNumber}
+              crossedOutAt={selectedCrossedOutAt}
+              crossedOutStep={
+                selectedCrossedOutAt !== undefined
+                  ? describeStep(history.steps[selectedCrossedOutAt - 1])
+                  : undefined
+              }
+              familyLabel={familyLabel}
+              onInspect={setSelectedPrime}
+              onGoToStep={goToStep}
+              onClose={() => setSelectedPrime(null)}
+            />
+          </aside>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,393 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type MouseEvent,
+} from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  cellColors,
+  cellPalette,
+  drawFamilyStripes,
+  familyStripes,
+} from "@/lib/cell-palette";
+import { useIsDark } from "@/hooks/use-is-dark";
+import {
+  denseDiagonals,
+  EULER_LIKE_QUADRATIC,
+  formatDiagonal,
+  formatQuadratic,
+  quadraticValues,
+  tracedDiagonal,
+  ulamPosition,
+  ulamRadius,
+  ulamValueAt,
+  highlightsNumber,
+  type FamilyFilter,
+  type PrimeNumber,
+  type Quadratic,
+  type SpiralDiagonal,
+} from "@/lib/sieve";
+
+const MAX_SIZE = 640;
+
+interface UlamSpiralProps {
+  numbers: PrimeNumber[];
+  currentPrime: number;
+  currentMultiple: number;
+  isComplete: boolean;
+  familyFilter: FamilyFilter;
+  selectedPrime: number | null;
+  onSelectedPrimeChange: (value: number | null) => void;
+}
+
+// Ends of a diagonal clipped to a board of the given radius
+function diagonalEnds(
+  { direction, offset }: SpiralDiagonal,
+  radius: number
+): [number, number, number, number] {
+  const from = Math.max(-radius, offset - radius);
+  const to = Math.min(radius, offset + radius);
+  const y = (x: number) => (direction === "sum" ? offset - x : x - offset);
+  return [from, y(from), to, y(to)];
+}
+
+// The sieve board laid out as an Ulam spiral, with 1 in the centre unless
+// another centre is chosen. Cells are drawn on a canvas like the large grid
+// and share its colours and selection.
+export function UlamSpiral({
+  numbers,
+  currentPrime,
+  currentMultiple,
+  isComplete,
+  familyFilter,
+  selectedPrime,
+  onSelectedPrimeChange,
+}: UlamSpiralProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [showDiagonals, setShowDiagonals] = useState(true);
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [quadratic, setQuadratic] = useState<Quadratic>(EULER_LIKE_QUADRATIC);
+  // Value at the centre of the spiral, as typed and as drawn
+  const [centreInput, setCentreInput] = useState("1");
+  const [centreValue, setCentreValue] = useState(1);
+  const isDark = useIsDark();
+
+  const limit = numbers.length;
+  const centre = Math.min(centreValue, limit);
+  const radius = ulamRadius(limit, centre);
+  const size = Math.min(width, MAX_SIZE);
+  const pitch = size / (2 * radius + 1);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) =>
+      setWidth(entry.contentRect.width)
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Densest diagonals among the primes found so far
+  const diagonals = useMemo(
+    () =>
+      showDiagonals
+        ? denseDiagonals(
+            (n) => numbers[n - 1]?.state === "prime",
+            limit,
+            4,
+            Math.max(8, radius),
+            centre
+          )
+        : [],
+    [showDiagonals, numbers, limit, radius, centre]
+  );
+
+  // Values below the centre are not on the spiral
+  const overlay = useMemo(
+    () =>
+      showOverlay
+        ? quadraticValues(quadratic, limit).filter((value) => value >= centre)
+        : [],
+    [showOverlay, quadratic, limit, centre]
+  );
+  const overlayPrimes = overlay.filter(
+    (value) => numbers[value - 1]?.state === "prime"
+  ).length;
+  const overlayDiagonal = useMemo(
+    () => tracedDiagonal(overlay, centre),
+    [overlay, centre]
+  );
+  // Starting the spiral at the constant term lines up quadratics such as
+  // n² + n + 41 and 4n² − 2n + 41 from n = 0
+  const suggestedCentre =
+    !overlayDiagonal &&
+    quadratic.c >= 1 &&
+    quadratic.c <= limit &&
+    quadratic.c !== centre
+      ? quadratic.c
+      : null;
+
+  // Top-left corner of the cell at spiral coordinates (x, y)
+  const cellOrigin = useCallback(
+    (x: number, y: number) => [(x + radius) * pitch, (radius - y) * pitch],
+    [radius, pitch]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || size === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size * dpr;
+    canvas.height = size * dpr;
+    canvas.style.width = `${size}px`;
+    canvas.style.height = `${size}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size, size);
+
+    const palette = cellPalette(isDark);
+    const gap = pitch >= 8 ? 1 : 0;
+    const cell = pitch - gap;
+    const showText = pitch >= 20;
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    for (const number of numbers) {
+      if (number.value < centre) continue;
+      const { x, y } = ulamPosition(number.value, centre);
+      const [left, top] = cellOrigin(x, y);
+      const isHighlighted = highlightsNumber(number, familyFilter);
+      const colors = cellColors(number, isHighlighted, palette);
+
+      ctx.globalAlpha = number.offWheel ? 0.3 : 1;
+      ctx.fillStyle = colors.fill;
+      ctx.fillRect(left, top, cell, cell);
+      if (isHighlighted) {
+        drawFamilyStripes(
+          ctx,
+          left,
+          top,
+          cell,
+          familyStripes(number, familyFilter)
+        );
+      }
+
+      // Same ring precedence as the grid
+      let ring: string | null = null;
+      if (selectedPrime === number.value) ring = palette.selected;
+      else if (hovered === number.value) ring = palette.hover;
+      else if (number.value === currentMultiple && !isComplete)
+        ring = palette.currentMultiple;
+      else if (
+        number.value === currentPrime &&
+        currentMultiple === 0 &&
+        !isComplete
+      )
+        ring = palette.currentPrime;
+      else if (isHighlighted && number.state === "prime")
+        ring = palette.highlightedRing;
+
+      if (ring) {
+        ctx.strokeStyle = ring;
+        ctx.lineWidth = Math.min(2, Math.max(1, pitch / 4));
+        ctx.strokeRect(left, top, cell, cell);
+      }
+
+      if (showText) {
+        const digits = String(number.value).length;
+        ctx.fillStyle = colors.text;
+        ctx.font = `500 ${Math.min(11, (cell * 1.6) / digits)}px sans-serif`;
+        ctx.fillText(String(number.value), left + cell / 2, top + cell / 2);
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    // Dense diagonals as translucent bands over the cells
+    ctx.lineCap = "round";
+    ctx.strokeStyle = palette.diagonal;
+    ctx.lineWidth = Math.max(2, pitch * 0.6);
+    for (const diagonal of diagonals) {
+      const [x1, y1, x2, y2] = diagonalEnds(diagonal, radius);
+      const [left1, top1] = cellOrigin(x1, y1);
+      const [left2, top2] = cellOrigin(x2, y2);
+      ctx.beginPath();
+      ctx.moveTo(left1 + cell / 2, top1 + cell / 2);
+      ctx.lineTo(left2 + cell / 2, top2 + cell / 2);
+      ctx.stroke();
+    }
+
+    // The polynomial's values, joined in order of n
+    if (overlay.length > 0) {
+      ctx.strokeStyle = palette.overlay;
+      ctx.fillStyle = palette.overlay;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      overlay.forEach((value, i) => {
+        const { x, y } = ulamPosition(value, centre);
+        const [left, top] = cellOrigin(x, y);
+        if (i === 0) ctx.moveTo(left + cell / 2, top + cell / 2);
+        else ctx.lineTo(left + cell / 2, top + cell / 2);
+      });
+      ctx.stroke();
+      const dot = Math.max(1.5, pitch * 0.2);
+      for (const value of overlay) {
+        const { x, y } = ulamPosition(value, centre);
+        const [left, top] = cellOrigin(x, y);
+        ctx.beginPath();
+        ctx.arc(left + cell / 2, top + cell / 2, dot, 0, 2 * Math.PI);
+        ctx.fill();
+      }
+    }
+  }, [
+    numbers,
+    size,
+    pitch,
+    radius,
+    centre,
+    cellOrigin,
+    isDark,
+    hovered,
+    familyFilter,
+    selectedPrime,
+    currentPrime,
+    currentMultiple,
+    isComplete,
+    diagonals,
+    overlay,
+  ]);
+
+  // Map a pointer position to the number under it, if any
+  const hitTest = useCallback(
+    (event: MouseEvent<HTMLCanvasElement>): number | null => {
+      const rect = event.currentTarget.getBoundingClientRect();
+      const col = Math.floor((event.clientX - rect.left) / pitch);
+      const row = Math.floor((event.clientY - rect.top) / pitch);
+      return ulamValueAt(col - radius, radius - row, limit, centre) || null;
+    },
+    [pitch, radius, limit, centre]
+  );
+
+  const setCoefficient = (key: keyof Quadratic) => (value: string) => {
+    const coefficient = Number.parseInt(value, 10);
+    if (Number.isFinite(coefficient)) {
+      setQuadratic((q) => ({ ...q, [key]: coefficient }));
+    }
+  };
+
+  const changeCentre = (value: string) => {
+    setCentreInput(value);
+    const parsed = Number.parseInt(value, 10);
+    if (Number.isFinite(parsed) && parsed >= 1) setCentreValue(parsed);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-6">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          Centre
+          <Input
+            type="number"
+            className="h-8 w-20"
+            min={1}
+            max={limit}
+            value={centreInput}
+            onChange={(event) => changeCentre(event.target.value)}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <Switch checked={showDiagonals} onCheckedChange={setShowDiagonals} />
+          Dense diagonals
+        </label>
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <Switch checked={showOverlay} onCheckedChange={setShowOverlay} />
+          Polynomial
+        </label>
+        <div className="flex items-center gap-1 text-sm">
+          {(["a", "b", "c"] as const).map((key) => (
+            <span key={key} className="flex items-center gap-1">
+              <Input
+                type="number"
+                aria-label={`Coefficient ${key}`}
+                className="h-8 w-16"
+                defaultValue={quadratic[key]}
+                onChange={(event) => setCoefficient(key)(event.target.value)}
+                disabled={!showOverlay}
+              />
+              {key === "a" && "n² +"}
+              {key === "b" && "n +"}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div ref={containerRef} className="w-full flex justify-center">
+        <div className="relative" style={{ width: size, height: size }}>
+          <canvas
+            ref={canvasRef}
+            className="block cursor-pointer"
+            onMouseMove={(event) => setHovered(hitTest(event))}
+            onMouseLeave={() => setHovered(null)}
+            onClick={(event) => onSelectedPrimeChange(hitTest(event))}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        {showOverlay && (
+          <div>
+            <span className="font-medium">{formatQuadratic(quadratic)}</span>
+            <span className="text-muted-foreground">
+              {" "}
+              takes {overlay.length} values up to {limit}, {overlayPrimes} of
+              them prime.{" "}
+              {overlayDiagonal
+                ? `It traces the diagonal ${formatDiagonal(overlayDiagonal)}.`
+                : "It does not stay on a single diagonal."}
+            </span>
+            {suggestedCentre !== null && (
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0 ml-1"
+                onClick={() => changeCentre(String(suggestedCentre))}
+              >
+                Start the spiral at {suggestedCentre}
+              </Button>
+            )}
+          </div>
+        )}
+        {diagonals.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-muted-foreground">
+              Densest diagonals ({centre} at the origin):
+            </span>
+            {diagonals.map((diagonal) => (
+              <Badge
+                key={`${diagonal.direction}${diagonal.offset}`}
+                variant="outline"
+              >
+                {formatDiagonal(diagonal)}: {diagonal.primes}/{diagonal.cells} (
+                {(diagonal.density * 100).toFixed(0)}%)
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
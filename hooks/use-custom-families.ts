@@ -0,0 +1,63 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  compileCustomFamily,
+  CUSTOM_FAMILY_PREFIX,
+  listPrimeFamilies,
+  registerPrimeFamily,
+  unregisterPrimeFamily,
+  type CustomFamilySource,
+  type PrimeFamilyDefinition,
+} from "@/lib/sieve";
+import { loadCustomFamilies, saveCustomFamilies } from "@/lib/preferences";
+
+const register = (source: CustomFamilySource) => {
+  const family = compileCustomFamily(source);
+  if (family) registerPrimeFamily(family);
+};
+
+// User-defined prime families, kept with the stored preferences and
+// registered alongside the built-in ones. `primeFamilies` is a copy of the
+// whole registry taken after each change, for memos and effects to depend on.
+export function useCustomFamilies() {
+  const [families, setFamilies] = useState<CustomFamilySource[]>([]);
+  const [primeFamilies, setPrimeFamilies] =
+    useState<PrimeFamilyDefinition[]>(listPrimeFamilies);
+  // Whether stored families have been registered yet
+  const [loaded, setLoaded] = useState(false);
+
+  // Storage is only available on the client, so load after mounting
+  useEffect(() => {
+    const restored = loadCustomFamilies();
+    restored.forEach(register);
+    setFamilies(restored);
+    setPrimeFamilies(listPrimeFamilies());
+    setLoaded(true);
+  }, []);
+
+  // Keep storage in step with the list, once the stored one has been read
+  useEffect(() => {
+    if (loaded) saveCustomFamilies(families);
+  }, [loaded, families]);
+
+  const add = useCallback((name: string, expression: string): string => {
+    const source: CustomFamilySource = {
+      id: `${CUSTOM_FAMILY_PREFIX}${Date.now().toString(36)}`,
+      name: name.trim(),
+      expression: expression.trim(),
+    };
+    register(source);
+    setPrimeFamilies(listPrimeFamilies());
+    setFamilies((current) => [...current, source]);
+    return source.id;
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    unregisterPrimeFamily(id);
+    setPrimeFamilies(listPrimeFamilies());
+    setFamilies((current) => current.filter((family) => family.id !== id));
+  }, []);
+
+  return { families, primeFamilies, loaded, add, remove };
+}
@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Track the "dark" class on <html>, for drawing code that can't use Tailwind
+export function useIsDark() {
+  const [isDark, setIsDark] = useState(false);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    const update = () => setIsDark(root.classList.contains("dark"));
+    update();
+
+    const observer = new MutationObserver(update);
+    observer.observe(root, { attributes: true, attributeFilter: ["class"] });
+    return () => observer.disconnect();
+  }, []);
+
+  return isDark;
+}
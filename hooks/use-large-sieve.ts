@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  CustomFamilySource,
+  LargeSieveMessage,
+  LargeSievePhase,
+  LargeSieveRequest,
+  LargeSieveResult,
+} from "@/lib/sieve";
+
+export interface LargeSieveProgress {
+  phase: LargeSievePhase;
+  fraction: number;
+}
+
+// Run the bitset sieve in a Web Worker so large limits don't block the UI
+export function useLargeSieve() {
+  const workerRef = useRef<Worker | null>(null);
+  const [progress, setProgress] = useState<LargeSieveProgress | null>(null);
+  const [result, setResult] = useState<LargeSieveResult | null>(null);
+  // Why the last run stopped early, e.g. the worker ran out of memory
+  const [error, setError] = useState<string | null>(null);
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  }, []);
+
+  const run = useCallback(
+    (limit: number, customFamilies: CustomFamilySource[] = []) => {
+      cancel();
+      setResult(null);
+      setError(null);
+      setProgress({ phase: "sieving", fraction: 0 });
+
+      const worker = new Worker(
+        new URL("../lib/sieve/sieve.worker.ts", import.meta.url)
+      );
+      worker.onmessage = (event: MessageEvent<LargeSieveMessage>) => {
+        const message = event.data;
+        if (message.type === "progress") {
+          setProgress({ phase: message.phase, fraction: message.fraction });
+        } else {
+          setResult(message.result);
+          setProgress(null);
+          worker.terminate();
+          workerRef.current = null;
+        }
+      };
+      const fail = (reason: string) => {
+        setError(reason);
+        setProgress(null);
+        worker.terminate();
+        workerRef.current = null;
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        fail(event.message || "The sieve stopped unexpectedly");
+      };
+      worker.onmessageerror = () =>
+        fail("The sieve's results could not be read");
+      const request: LargeSieveRequest = { limit, customFamilies };
+      worker.postMessage(request);
+      workerRef.current = worker;
+    },
+    [cancel]
+  );
+
+  // Don't leave a worker running after unmount
+  useEffect(() => cancel, [cancel]);
+
+  return {
+    run,
+    cancel,
+    progress,
+    result,
+    error,
+    isRunning: progress !== null,
+  };
+}
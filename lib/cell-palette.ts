@@ -0,0 +1,171 @@
+import type { FamilyFilter, PrimeFamily, PrimeNumber } from "@/lib/sieve";
+
+// Fill and text colour of one cell
+export interface CellColors {
+  fill: string;
+  text: string;
+}
+
+// Colours used to draw sieve cells outside the DOM (canvas, exports). They
+// mirror the Tailwind classes of the DOM grid in light and dark mode.
+export interface CellPalette {
+  unmarked: CellColors;
+  prime: CellColors;
+  composite: CellColors;
+  highlighted: CellColors;
+  highlightedRing: string;
+  currentPrime: string;
+  currentMultiple: string;
+  selected: string;
+  hover: string;
+  segment: string;
+  diagonal: string;
+  coprime: string;
+  overlay: string;
+  gapPair: string;
+  goldbachPair: string;
+  background: string;
+  foreground: string;
+}
+
+export const LIGHT_PALETTE: CellPalette = {
+  unmarked: { fill: "#f5f5f5", text: "#737373" }, // bg-muted
+  prime: { fill: "#dcfce7", text: "#166534" }, // green-100 / green-800
+  composite: { fill: "#fee2e2", text: "#991b1b" }, // red-100 / red-800
+  highlighted: { fill: "#e9d5ff", text: "#581c87" }, // purple-200 / purple-900
+  highlightedRing: "#a855f7", // purple-500
+  currentPrime: "#171717", // ring-primary
+  currentMultiple: "#f97316", // orange-500
+  selected: "#3b82f6", // blue-500
+  hover: "#60a5fa", // blue-400
+  segment: "#0ea5e9", // sky-500
+  diagonal: "rgba(234, 179, 8, 0.35)", // yellow-500
+  coprime: "#e0f2fe", // sky-100
+  overlay: "#2563eb", // blue-600
+  gapPair: "#14b8a6", // teal-500
+  goldbachPair: "#f59e0b", // amber-500
+  background: "#ffffff",
+  foreground: "#0a0a0a",
+};
+
+export const DARK_PALETTE: CellPalette = {
+  unmarked: { fill: "#262626", text: "#a3a3a3" },
+  prime: { fill: "#14532d", text: "#dcfce7" }, // green-900 / green-100
+  composite: { fill: "#7f1d1d", text: "#fee2e2" }, // red-900 / red-100
+  highlighted: { fill: "#581c87", text: "#f3e8ff" }, // purple-900 / purple-100
+  highlightedRing: "#a855f7",
+  currentPrime: "#fafafa",
+  currentMultiple: "#f97316",
+  selected: "#3b82f6",
+  hover: "#60a5fa",
+  segment: "#0ea5e9",
+  diagonal: "rgba(250, 204, 21, 0.3)", // yellow-400
+  coprime: "#082f49", // sky-950
+  overlay: "#60a5fa", // blue-400
+  gapPair: "#2dd4bf", // teal-400
+  goldbachPair: "#fbbf24", // amber-400
+  background: "#0a0a0a",
+  foreground: "#fafafa",
+};
+
+export const cellPalette = (dark: boolean): CellPalette =>
+  dark ? DARK_PALETTE : LIGHT_PALETTE;
+
+// Colours for a cell, matching the DOM grid's state classes
+export function cellColors(
+  number: PrimeNumber,
+  highlighted: boolean,
+  palette: CellPalette
+): CellColors {
+  if (number.state === "unmarked") return palette.unmarked;
+  if (number.state === "composite") return palette.composite;
+  return highlighted ? palette.highlighted : palette.prime;
+}
+
+// One colour per included family, in the order they were picked. Mid shades
+// read on both the light and the dark background.
+export const FAMILY_COLOURS = [
+  "#a855f7", // purple-500
+  "#f59e0b", // amber-500
+  "#06b6d4", // cyan-500
+  "#ec4899", // pink-500
+  "#84cc16", // lime-500
+  "#6366f1", // indigo-500
+];
+
+export const familyColour = (filter: FamilyFilter, family: PrimeFamily) =>
+  FAMILY_COLOURS[filter.include.indexOf(family) % FAMILY_COLOURS.length];
+
+// Colours of the included families a number belongs to, drawn as stripes
+export const familyStripes = (
+  number: PrimeNumber,
+  filter: FamilyFilter
+): string[] =>
+  filter.include
+    .filter((family) => number.families.includes(family))
+    .map((family) => familyColour(filter, family));
+
+// Family stripes along the bottom edge of a canvas cell
+export function drawFamilyStripes(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  size: number,
+  colours: string[]
+): void {
+  if (colours.length === 0) return;
+  const height = Math.max(2, Math.round(size * 0.18));
+  const width = size / colours.length;
+  colours.forEach((colour, i) => {
+    ctx.fillStyle = colour;
+    ctx.fillRect(x + i * width, y + size - height, width, height);
+  });
+}
+
+// Hue of residue class i of count, spread around the colour wheel from blue
+const residueHue = (index: number, count: number) =>
+  Math.round(210 + (360 * index) / count) % 360;
+
+// An HSL colour as #rrggbb, which SVG exports can rely on everywhere
+function hslHex(hue: number, saturation: number, lightness: number): string {
+  const chroma = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = lightness - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255)
+      .toString(16)
+      .padStart(2, "0");
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+// Line colour of each class in the prime race chart
+export const residueLineColour = (index: number, count: number) =>
+  hslHex(residueHue(index, count), 0.7, 0.5);
+
+// Primes coloured by residue class mod m, so a prime race can be followed
+// on the board. Only the classes in the race get a colour.
+export interface ResidueColouring {
+  modulus: number;
+  hues: Map<number, number>;
+}
+
+export const residueColouring = (
+  modulus: number,
+  classes: number[]
+): ResidueColouring => ({
+  modulus,
+  hues: new Map(
+    classes.map((residue, i) => [residue, residueHue(i, classes.length)])
+  ),
+});
+
+// Fill of a prime under a residue colouring, light or dark to match the grid
+export function residueFill(
+  value: number,
+  colouring: ResidueColouring,
+  dark: boolean
+): string | undefined {
+  const hue = colouring.hues.get(value % colouring.modulus);
+  return hue === undefined ? undefined : hslHex(hue, 0.7, dark ? 0.35 : 0.75);
+}
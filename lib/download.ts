@@ -0,0 +1,10 @@
+// Save data as a file through a temporary link. Browser only.
+export function downloadFile(name: string, data: Blob) {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,460 @@
+import {
+  describeFamilyFilter,
+  highlightsNumber,
+  isCoprimeResidue,
+  isFamilyFilterActive,
+  polarPosition,
+  sacksPosition,
+  ulamPosition,
+  ulamRadius,
+  type FamilyFilter,
+  type PrimeFamily,
+  type PrimeNumber,
+  type SpiralPoint,
+} from "@/lib/sieve";
+import {
+  cellColors,
+  cellPalette,
+  familyColour,
+  familyStripes,
+  residueFill,
+  type CellPalette,
+  type ResidueColouring,
+} from "@/lib/cell-palette";
+
+// A standalone SVG document and its size in CSS pixels
+export interface SvgImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// How the board is laid out: in rows of columns (optionally one column per
+// residue mod the column count, starting from 0), on the Ulam spiral, or as
+// points on the Sacks spiral or the polar plot
+export type GridImageLayout =
+  | { kind: "columns"; columns: number; residues: boolean }
+  | { kind: "ulam" }
+  | { kind: "sacks" }
+  | { kind: "polar" };
+
+export interface GridImageOptions {
+  layout: GridImageLayout;
+  dark: boolean;
+  title: string;
+  familyFilter: FamilyFilter;
+  familyLabel: (family: PrimeFamily) => string;
+  residueColours?: ResidueColouring | null;
+}
+
+// Browsers refuse canvases much larger than this on a side
+export const MAX_PNG_SIDE = 16_384;
+
+const PADDING = 16;
+const TITLE_HEIGHT = 28;
+const LEGEND_ROW = 22;
+const LEGEND_SWATCH = 12;
+const FONT = "ui-sans-serif, system-ui, sans-serif";
+// Numbers are only written in cells at least this big
+const MIN_TEXT_CELL = 18;
+// Boards above this many cells are drawn small and without numbers
+const LARGE_BOARD = 10_000;
+const PLOT_SIZE = 800;
+
+// Columns for the fit-to-width layout: the DOM grid's 10, 15 or 20, and
+// roughly square beyond that
+export const imageColumns = (count: number): number =>
+  count <= 100
+    ? 10
+    : count <= 225
+    ? 15
+    : count <= 1000
+    ? 20
+    : Math.ceil(Math.sqrt(count) / 10) * 10;
+
+const escapeXml = (text: string) =>
+  text.replace(
+    /[<>&"']/g,
+    (char) =>
+      ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" }[
+        char
+      ] ?? char)
+  );
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+interface LegendEntry {
+  label: string;
+  colour: string;
+  // Square cell, ring, dot or line swatch
+  shape: "cell" | "ring" | "dot" | "line";
+}
+
+// Legend entries flow left to right and wrap at the image width
+function legendLayout(entries: LegendEntry[], width: number) {
+  const placed: { entry: LegendEntry; x: number; row: number }[] = [];
+  let x = PADDING;
+  let row = 0;
+  for (const entry of entries) {
+    // Rough width of the label at 12px
+    const entryWidth = LEGEND_SWATCH + 6 + entry.label.length * 6.5 + 18;
+    if (x > PADDING && x + entryWidth > width - PADDING) {
+      x = PADDING;
+      row++;
+    }
+    placed.push({ entry, x, row });
+    x += entryWidth;
+  }
+  return { placed, height: entries.length ? (row + 1) * LEGEND_ROW + 8 : 0 };
+}
+
+function legendSvg(
+  placed: ReturnType<typeof legendLayout>["placed"],
+  top: number,
+  palette: CellPalette
+): string {
+  return placed
+    .map(({ entry, x, row }) => {
+      const y = top + row * LEGEND_ROW;
+      const middle = y + LEGEND_SWATCH / 2;
+      const swatch =
+        entry.shape === "dot"
+          ? `<circle cx="${x + 6}" cy="${middle}" r="4" fill="${
+              entry.colour
+            }"/>`
+          : entry.shape === "line"
+          ? `<rect x="${x}" y="${
+              middle - 2
+            }" width="${LEGEND_SWATCH}" height="4" fill="${entry.colour}"/>`
+          : entry.shape === "ring"
+          ? `<rect x="${x + 1}" y="${y + 1}" width="${
+              LEGEND_SWATCH - 2
+            }" height="${LEGEND_SWATCH - 2}" rx="2" fill="none" stroke="${
+              entry.colour
+            }" stroke-width="2"/>`
+          : `<rect x="${x}" y="${y}" width="${LEGEND_SWATCH}" height="${LEGEND_SWATCH}" rx="2" fill="${entry.colour}"/>`;
+      return `${swatch}<text x="${x + LEGEND_SWATCH + 6}" y="${
+        middle + 4
+      }" font-size="12" fill="${palette.foreground}">${escapeXml(
+        entry.label
+      )}</text>`;
+    })
+    .join("");
+}
+
+// Wrap a drawing with the background, a title above and the legend below
+function frame(
+  body: string,
+  bodyWidth: number,
+  bodyHeight: number,
+  title: string,
+  legend: LegendEntry[],
+  palette: CellPalette
+): SvgImage {
+  const width = Math.max(bodyWidth + 2 * PADDING, 420);
+  const { placed, height: legendHeight } = legendLayout(legend, width);
+  const bodyTop = PADDING + TITLE_HEIGHT;
+  const legendTop = bodyTop + bodyHeight + PADDING;
+  const height = legendTop + legendHeight + PADDING - 8;
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">`,
+    `<rect width="100%" height="100%" fill="${palette.background}"/>`,
+    `<text x="${PADDING}" y="${
+      PADDING + 16
+    }" font-size="16" font-weight="600" fill="${
+      palette.foreground
+    }">${escapeXml(title)}</text>`,
+    `<g transform="translate(${
+      (width - bodyWidth) / 2
+    } ${bodyTop})">${body}</g>`,
+    legendSvg(placed, legendTop, palette),
+    "</svg>",
+  ].join("");
+  return { svg, width, height };
+}
+
+// Cells of the board at the given grid positions, coloured as on screen
+function cellsSvg(
+  numbers: PrimeNumber[],
+  position: (index: number) => [column: number, row: number],
+  pitch: number,
+  options: GridImageOptions,
+  palette: CellPalette
+): string {
+  const { familyFilter, residueColours, dark } = options;
+  const gap = pitch >= 12 ? 2 : 1;
+  const size = pitch - gap;
+  const radius = Math.min(4, size / 4);
+  const parts: string[] = [];
+
+  numbers.forEach((number, i) => {
+    const [column, row] = position(i);
+    const x = column * pitch;
+    const y = row * pitch;
+    const highlighted = highlightsNumber(number, familyFilter);
+    const colours = cellColors(number, highlighted, palette);
+    const fill =
+      (number.state === "prime" && residueColours
+        ? residueFill(number.value, residueColours, dark)
+        : undefined) ?? colours.fill;
+    const opacity = number.offWheel ? ` opacity="0.3"` : "";
+
+    parts.push(
+      `<g${opacity}><rect x="${x}" y="${y}" width="${size}" height="${size}" rx="${radius}" fill="${fill}"${
+        highlighted && number.state === "prime"
+          ? ` stroke="${palette.highlightedRing}" stroke-width="2"`
+          : ""
+      }/>`
+    );
+    if (highlighted) {
+      const stripes = familyStripes(number, familyFilter);
+      const height = Math.max(2, Math.round(size * 0.18));
+      const width = size / stripes.length;
+      stripes.forEach((colour, j) =>
+        parts.push(
+          `<rect x="${round(x + j * width)}" y="${
+            y + size - height
+          }" width="${round(width)}" height="${height}" fill="${colour}"/>`
+        )
+      );
+    }
+    if (size >= MIN_TEXT_CELL) {
+      const digits = String(number.value).length;
+      const fontSize = round(Math.min(11, (size * 1.6) / digits));
+      parts.push(
+        `<text x="${x + size / 2}" y="${
+          y + size / 2
+        }" font-size="${fontSize}" font-weight="500" text-anchor="middle" dominant-baseline="central" fill="${
+          colours.text
+        }">${number.value}</text>`
+      );
+    }
+    parts.push("</g>");
+  });
+  return parts.join("");
+}
+
+// Primes as dots on the Sacks spiral or the polar plot, other numbers faded
+function plotSvg(
+  numbers: PrimeNumber[],
+  position: (n: number) => SpiralPoint,
+  extent: number,
+  options: GridImageOptions,
+  palette: CellPalette
+): string {
+  const { familyFilter } = options;
+  const scale = (PLOT_SIZE / 2 - 8) / Math.max(1, extent);
+  const radius = numbers.length > LARGE_BOARD ? 1 : 2;
+  const parts: string[] = [];
+
+  numbers.forEach((number) => {
+    if (number.value === 1) return;
+    const { x, y } = position(number.value);
+    const isPrime = number.state === "prime";
+    const colour = highlightsNumber(number, familyFilter)
+      ? familyStripes(number, familyFilter)[0] ?? palette.highlightedRing
+      : cellColors(number, false, palette).text;
+    parts.push(
+      `<circle cx="${round(PLOT_SIZE / 2 + x * scale)}" cy="${round(
+        PLOT_SIZE / 2 - y * scale
+      )}" r="${isPrime ? radius : radius * 0.6}" fill="${colour}"${
+        isPrime ? "" : ` opacity="0.25"`
+      }/>`
+    );
+  });
+  return parts.join("");
+}
+
+// The board as a vector image with a title and a legend, in the colours of
+// the current theme
+export function gridSvg(
+  numbers: PrimeNumber[],
+  options: GridImageOptions
+): SvgImage {
+  const { layout, familyFilter, familyLabel, residueColours } = options;
+  const palette = cellPalette(options.dark);
+  const plotted = layout.kind === "sacks" || layout.kind === "polar";
+  const pitch = numbers.length > LARGE_BOARD ? 10 : 30;
+  const legend: LegendEntry[] = plotted
+    ? [
+        { label: "Prime", colour: palette.prime.text, shape: "dot" },
+        { label: "Composite", colour: palette.composite.text, shape: "dot" },
+      ]
+    : [
+        { label: "Prime", colour: palette.prime.fill, shape: "cell" },
+        { label: "Composite", colour: palette.composite.fill, shape: "cell" },
+        { label: "Unmarked", colour: palette.unmarked.fill, shape: "cell" },
+      ];
+  if (isFamilyFilterActive(familyFilter)) {
+    legend.push({
+      label: `Highlighted: ${describeFamilyFilter(familyFilter, familyLabel)}`,
+      colour: plotted ? palette.highlightedRing : palette.highlighted.fill,
+      shape: plotted ? "dot" : "cell",
+    });
+    familyFilter.include.forEach((family) =>
+      legend.push({
+        label: familyLabel(family),
+        colour: familyColour(familyFilter, family),
+        shape: plotted ? "dot" : "line",
+      })
+    );
+  }
+  if (residueColours && !plotted) {
+    Array.from(residueColours.hues.keys()).forEach((residue) =>
+      legend.push({
+        label: `${residue} mod ${residueColours.modulus}`,
+        colour: residueFill(residue, residueColours, options.dark) ?? "",
+        shape: "cell",
+      })
+    );
+  }
+
+  if (layout.kind === "columns") {
+    const { columns, residues } = layout;
+    // The cell for 0 leads the first row when columns are residues
+    const offset = residues ? 1 : 0;
+    const rows = Math.ceil((numbers.length + offset) / columns);
+    const labelHeight = residues && pitch >= 20 ? 16 : 0;
+    const parts: string[] = [];
+    if (residues) {
+      legend.push({
+        label: `Coprime to ${columns}`,
+        colour: palette.coprime,
+        shape: "cell",
+      });
+      for (let residue = 0; residue < columns; residue++) {
+        if (isCoprimeResidue(residue, columns)) {
+          parts.push(
+            `<rect x="${residue * pitch - 1}" y="${
+              labelHeight - 1
+            }" width="${pitch}" height="${rows * pitch}" fill="${
+              palette.coprime
+            }"/>`
+          );
+        }
+        if (labelHeight > 0) {
+          parts.push(
+            `<text x="${
+              residue * pitch + (pitch - 2) / 2
+            }" y="11" font-size="10" text-anchor="middle" fill="${
+              palette.unmarked.text
+            }">${residue}</text>`
+          );
+        }
+      }
+    }
+    parts.push(
+      `<g transform="translate(0 ${labelHeight})">`,
+      cellsSvg(
+        numbers,
+        (i) => [(i + offset) % columns, Math.floor((i + offset) / columns)],
+        pitch,
+        options,
+        palette
+      ),
+      "</g>"
+    );
+    return frame(
+      parts.join(""),
+      columns * pitch,
+      rows * pitch + labelHeight,
+      options.title,
+      legend,
+      palette
+    );
+  }
+
+  if (layout.kind === "ulam") {
+    const radius = ulamRadius(numbers.length);
+    const side = (2 * radius + 1) * pitch;
+    const body = cellsSvg(
+      numbers,
+      (i) => {
+        const { x, y } = ulamPosition(i + 1);
+        return [x + radius, radius - y];
+      },
+      pitch,
+      options,
+      palette
+    );
+    return frame(body, side, side, options.title, legend, palette);
+  }
+
+  const body =
+    layout.kind === "sacks"
+      ? plotSvg(
+          numbers,
+          sacksPosition,
+          Math.sqrt(numbers.length),
+          options,
+          palette
+        )
+      : plotSvg(numbers, polarPosition, numbers.length, options, palette);
+  return frame(body, PLOT_SIZE, PLOT_SIZE, options.title, legend, palette);
+}
+
+// A chart rendered by recharts, with a background, a title and a legend
+// drawn into the SVG, since the on-screen legend is HTML
+export function chartSvg(
+  surface: SVGSVGElement,
+  options: {
+    title: string;
+    dark: boolean;
+    series: { label: string; colour: string }[];
+  }
+): SvgImage {
+  const palette = cellPalette(options.dark);
+  const { width, height } = surface.getBoundingClientRect();
+  const chart = surface.cloneNode(true) as SVGSVGElement;
+  chart.setAttribute("width", String(width));
+  chart.setAttribute("height", String(height));
+  const body = new XMLSerializer().serializeToString(chart);
+  return frame(
+    body,
+    width,
+    height,
+    options.title,
+    options.series.map(({ label, colour }) => ({
+      label,
+      colour,
+      shape: "line",
+    })),
+    palette
+  );
+}
+
+// Largest PNG scale that stays within what a canvas can hold
+export const maxPngScale = (image: SvgImage): number =>
+  MAX_PNG_SIDE / Math.max(image.width, image.height);
+
+// Rasterise an SVG image at the given scale. Browser only.
+export function svgToPng(image: SvgImage, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(
+      new Blob([image.svg], { type: "image/svg+xml" })
+    );
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("The image is too large")),
+        "image/png"
+      );
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The image could not be drawn"));
+    };
+    img.src = url;
+  });
+}
@@ -0,0 +1,275 @@
+import {
+  isCustomFamilySource,
+  MAX_MODULUS,
+  MIN_MODULUS,
+  SIEVE_ALGORITHMS,
+  TEXTBOOK_ERATOSTHENES,
+  type CustomFamilySource,
+  type FamilyFilter,
+  type PrimeFamily,
+  type SieveAlgorithm,
+} from "@/lib/sieve";
+import {
+  DEFAULT_SHARED_STATE,
+  MAX_SEGMENT_SIZE,
+  MAX_SPEED,
+  MAX_STEP_LIMIT,
+  MIN_SEGMENT_SIZE,
+  MIN_SPEED,
+  MIN_STEP_LIMIT,
+  maxStepLimit,
+  WHEELS,
+  type RunSettings,
+} from "@/lib/url-state";
+
+const STORAGE_KEY = "sieve-visualizer:preferences";
+// Where custom families were kept before version 2 of the document
+const LEGACY_FAMILIES_KEY = "sieve-visualizer:custom-families";
+
+// Bump whenever the stored shape changes, and add a migration from the
+// previous version to MIGRATIONS
+const STORAGE_VERSION = 2;
+
+export type ThemePreference = "light" | "dark" | "system";
+const THEMES: ThemePreference[] = ["light", "dark", "system"];
+
+// Settings kept from one visit to the next. Layouts are stored as plain
+// strings and checked by the visualizer, which owns their types.
+export interface Preferences {
+  maxNumber: number;
+  speed: number;
+  columnLayout: string;
+  customModulus: number;
+  spiralLayout: string;
+  theme: ThemePreference;
+  familyFilter: FamilyFilter;
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  maxNumber: DEFAULT_SHARED_STATE.maxNumber,
+  speed: DEFAULT_SHARED_STATE.speed,
+  columnLayout: "auto",
+  customModulus: 12,
+  spiralLayout: "ulam",
+  theme: "system",
+  familyFilter: DEFAULT_SHARED_STATE.familyFilter,
+};
+
+// A run left part of the way through
+export interface SavedSession {
+  settings: RunSettings;
+  step: number;
+  totalSteps: number;
+  // Milliseconds since the epoch
+  savedAt: number;
+}
+
+export interface StoredState {
+  preferences: Preferences;
+  session: SavedSession | null;
+}
+
+type StoredDocument = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredDocument =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Every read goes through here: blocked storage throws on access
+function readJson(key: string): unknown {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? "null");
+  } catch {
+    // Storage is disabled or the entry is unreadable: treat it as missing
+    return null;
+  }
+}
+
+// MIGRATIONS[v - 1] turns a version v document into version v + 1
+const MIGRATIONS: ((document: StoredDocument) => StoredDocument)[] = [
+  // 1 → 2: custom families move into the document from their own entry
+  (stored) => ({
+    ...stored,
+    customFamilies: readJson(LEGACY_FAMILIES_KEY),
+  }),
+];
+
+// The stored document upgraded to the current version, or null when nothing
+// is stored or it was written by a newer version. Custom families saved
+// before the document existed are picked up as a version 1 document.
+function readDocument(): StoredDocument | null {
+  let parsed = readJson(STORAGE_KEY);
+  if (parsed === null && readJson(LEGACY_FAMILIES_KEY) !== null) {
+    parsed = { version: 1 };
+  }
+  if (!isRecord(parsed)) return null;
+
+  const version = parsed.version;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > STORAGE_VERSION
+  ) {
+    return null;
+  }
+  return MIGRATIONS.slice(version - 1).reduce(
+    (current, migrate) => migrate(current),
+    parsed
+  );
+}
+
+// Replace some fields of the document, keeping the rest
+function writeDocument(fields: StoredDocument) {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        ...readDocument(),
+        ...fields,
+        version: STORAGE_VERSION,
+      })
+    );
+    localStorage.removeItem(LEGACY_FAMILIES_KEY);
+  } catch {
+    // Storage is full or disabled: settings last for this visit only
+  }
+}
+
+// Whole numbers in [min, max]; anything else takes the fallback
+const integerIn = (
+  value: unknown,
+  min: number,
+  max: number,
+  fallback: number
+): number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= min &&
+  value <= max
+    ? value
+    : fallback;
+
+const familyList = (
+  value: unknown,
+  known: (family: PrimeFamily) => boolean
+): PrimeFamily[] =>
+  Array.isArray(value)
+    ? Array.from(new Set(value)).filter(
+        (family): family is PrimeFamily =>
+          typeof family === "string" && known(family)
+      )
+    : [];
+
+function readPreferences(
+  value: unknown,
+  known: (family: PrimeFamily) => boolean
+): Preferences {
+  const stored = isRecord(value) ? value : {};
+  const defaults = DEFAULT_PREFERENCES;
+  const filter = isRecord(stored.familyFilter) ? stored.familyFilter : {};
+  return {
+    maxNumber: integerIn(
+      stored.maxNumber,
+      MIN_STEP_LIMIT,
+      MAX_STEP_LIMIT,
+      defaults.maxNumber
+    ),
+    speed: integerIn(stored.speed, MIN_SPEED, MAX_SPEED, defaults.speed),
+    columnLayout:
+      typeof stored.columnLayout === "string"
+        ? stored.columnLayout
+        : defaults.columnLayout,
+    customModulus: integerIn(
+      stored.customModulus,
+      MIN_MODULUS,
+      MAX_MODULUS,
+      defaults.customModulus
+    ),
+    spiralLayout:
+      typeof stored.spiralLayout === "string"
+        ? stored.spiralLayout
+        : defaults.spiralLayout,
+    theme: THEMES.find((theme) => theme === stored.theme) ?? defaults.theme,
+    familyFilter: {
+      include: familyList(filter.include, known),
+      exclude: familyList(filter.exclude, known),
+      combinator: filter.combinator === "and" ? "and" : "or",
+    },
+  };
+}
+
+function readSession(value: unknown): SavedSession | null {
+  if (!isRecord(value) || !isRecord(value.settings)) return null;
+  const { settings } = value;
+  const options = isRecord(settings.optimisations)
+    ? settings.optimisations
+    : {};
+  const algorithm = Object.keys(SIEVE_ALGORITHMS).find(
+    (id): id is SieveAlgorithm => id === settings.algorithm
+  );
+  if (!algorithm) return null;
+  const mode = settings.mode === "segmented" ? "segmented" : "steps";
+  const maxNumber = integerIn(
+    settings.maxNumber,
+    MIN_STEP_LIMIT,
+    // Segmented runs always use Eratosthenes
+    mode === "steps" ? maxStepLimit(algorithm) : MAX_STEP_LIMIT,
+    0
+  );
+  const totalSteps = integerIn(value.totalSteps, 1, Number.MAX_SAFE_INTEGER, 0);
+  const step = integerIn(value.step, 1, totalSteps, 0);
+  if (maxNumber === 0 || step === 0) return null;
+
+  return {
+    settings: {
+      maxNumber,
+      mode,
+      algorithm,
+      segmentSize: integerIn(
+        settings.segmentSize,
+        MIN_SEGMENT_SIZE,
+        MAX_SEGMENT_SIZE,
+        DEFAULT_SHARED_STATE.segmentSize
+      ),
+      optimisations: {
+        startAtSquare: options.startAtSquare === true,
+        stopAtRoot: options.stopAtRoot === true,
+        wheel:
+          WHEELS.find((wheel) => wheel === options.wheel) ??
+          TEXTBOOK_ERATOSTHENES.wheel,
+      },
+    },
+    step,
+    totalSteps,
+    savedAt: integerIn(value.savedAt, 0, Number.MAX_SAFE_INTEGER, 0),
+  };
+}
+
+// Read the stored preferences and session, upgrading older documents. Returns
+// null when nothing usable is stored, including documents written by a newer
+// version. Invalid fields fall back to their defaults and unknown families are
+// dropped, so register the custom families first.
+export function loadStoredState(
+  known: (family: PrimeFamily) => boolean
+): StoredState | null {
+  const stored = readDocument();
+  if (!stored) return null;
+  return {
+    preferences: readPreferences(stored.preferences, known),
+    session: readSession(stored.session),
+  };
+}
+
+export function saveStoredState(state: StoredState) {
+  writeDocument({ preferences: state.preferences, session: state.session });
+}
+
+// Custom families kept in the same document, dropping malformed entries
+export function loadCustomFamilies(): CustomFamilySource[] {
+  const stored = readDocument()?.customFamilies;
+  return Array.isArray(stored) ? stored.filter(isCustomFamilySource) : [];
+}
+
+export function saveCustomFamilies(families: CustomFamilySource[]) {
+  writeDocument({ customFamilies: families });
+}
@@ -0,0 +1,130 @@
+import { sieveOfAtkin } from "./atkin";
+import { sieveOfEratosthenes } from "./engine";
+import { linearSieve } from "./linear";
+import { sieveOfSundaram } from "./sundaram";
+import { trialDivision } from "./trial-division";
+import type { SieveRun } from "./operations";
+
+export type SieveAlgorithm =
+  | "eratosthenes"
+  | "sundaram"
+  | "euler"
+  | "atkin"
+  | "trial-division";
+
+// Text for the "How it works" popover
+export interface AlgorithmExplanation {
+  title: string;
+  steps: string[];
+  summary: string;
+}
+
+export interface SieveAlgorithmInfo {
+  id: SieveAlgorithm;
+  label: string;
+  run: SieveRun;
+  explanation: AlgorithmExplanation;
+  // Largest board the step-by-step mode records, for algorithms that record
+  // far more steps than the others
+  stepLimit?: number;
+}
+
+export const SIEVE_ALGORITHMS: Record<SieveAlgorithm, SieveAlgorithmInfo> = {
+  eratosthenes: {
+    id: "eratosthenes",
+    label: "Sieve of Eratosthenes",
+    run: sieveOfEratosthenes,
+    explanation: {
+      title: "How the Sieve of Eratosthenes Works:",
+      steps: [
+        "Start with all numbers from 2 to n marked as potential primes.",
+        "Take the smallest unmarked number (starting with 2), mark it as prime.",
+        "Mark all multiples of that prime as composite (not prime).",
+        "Move to the next unmarked number and repeat steps 2-3.",
+        "When all numbers have been processed, the remaining unmarked numbers are prime.",
+      ],
+      summary:
+        "This algorithm efficiently finds all prime numbers up to any given limit by iteratively marking the multiples of each prime, starting from 2.",
+    },
+  },
+  sundaram: {
+    id: "sundaram",
+    label: "Sieve of Sundaram",
+    run: sieveOfSundaram,
+    explanation: {
+      title: "How the Sieve of Sundaram Works:",
+      steps: [
+        "Work with indices k = 1 … (n−1)/2, where k stands for the odd number 2k+1.",
+        "For every 1 ≤ i ≤ j, remove the index i + j + 2ij.",
+        "Removing that index crosses out 2(i + j + 2ij) + 1 = (2i+1)(2j+1), an odd composite.",
+        "Every index that survives gives an odd prime 2k+1; add 2 separately.",
+      ],
+      summary:
+        "Only odd numbers are considered, and some composites are removed several times because they have several odd factorisations.",
+    },
+  },
+  euler: {
+    id: "euler",
+    label: "Euler's Linear Sieve",
+    run: linearSieve,
+    explanation: {
+      title: "How Euler's Linear Sieve Works:",
+      steps: [
+        "Go through every number i from 2 to n; if it is still unmarked it is prime.",
+        "Cross out p × i for each prime p found so far, in increasing order.",
+        "Stop as soon as p divides i: larger primes would not be the smallest factor of p × i.",
+        "Every composite is crossed out exactly once, by its smallest prime factor.",
+      ],
+      summary:
+        "Because no number is ever crossed out twice, the total work is linear in n.",
+    },
+  },
+  atkin: {
+    id: "atkin",
+    label: "Sieve of Atkin",
+    run: sieveOfAtkin,
+    explanation: {
+      title: "How the Sieve of Atkin Works:",
+      steps: [
+        "Start with 2 and 3 as primes and every other number switched off.",
+        "For x, y ≥ 1, toggle 4x²+y² when it is 1 or 5 mod 12, 3x²+y² when it is 7 mod 12, and 3x²−y² (x > y) when it is 11 mod 12.",
+        "A number toggled an odd number of times is a candidate (shown as prime).",
+        "For each candidate r ≥ 5, remove multiples of r² from the candidates.",
+        "Candidates left at the end are prime; everything else is composite.",
+      ],
+      summary:
+        "The quadratic forms pick out square-free numbers with an odd number of representations, which are exactly the primes once squares are removed.",
+    },
+  },
+  "trial-division": {
+    id: "trial-division",
+    label: "Trial Division",
+    run: trialDivision,
+    // About 120,000 recorded divisions at 10,000 and a million at 50,000
+    stepLimit: 10_000,
+    explanation: {
+      title: "How Trial Division Works:",
+      steps: [
+        "Take each number n from 2 upwards on its own.",
+        "Divide it by 2, 3, 4, … up to √n.",
+        "If any divisor goes in evenly, n is composite.",
+        "If none does, n is prime.",
+      ],
+      summary:
+        "Nothing is shared between numbers, so it does far more work than a sieve. That contrast is why sieves exist.",
+    },
+  },
+};
+
+export const SEGMENTED_SIEVE_EXPLANATION: AlgorithmExplanation = {
+  title: "How the Segmented Sieve Works:",
+  steps: [
+    "Find the base primes up to √n with the classic sieve.",
+    "Split the rest of the range into windows of the chosen size.",
+    "For each base prime p, the first multiple inside a window [L, H] is ⌈L/p⌉·p (never below p²).",
+    "Cross out from there in steps of p to the end of the window.",
+    "Whatever is left unmarked in the window is prime; move on to the next window.",
+  ],
+  summary:
+    "Only √n numbers plus one window need to be in memory at a time, and the result is identical to the classic sieve.",
+};
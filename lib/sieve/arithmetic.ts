@@ -0,0 +1,156 @@
+import { isPrimeByTrialDivision, primeFactorisation } from "./factors";
+
+// σ(n): sum of the divisors of n
+export const divisorSum = (n: number): number =>
+  primeFactorisation(n).reduce(
+    (sum, { prime, exponent }) =>
+      (sum * (prime ** (exponent + 1) - 1)) / (prime - 1),
+    1
+  );
+
+// φ(n): how many of 1..n are coprime to n
+export const totient = (n: number): number =>
+  primeFactorisation(n).reduce(
+    (result, { prime }) => (result / prime) * (prime - 1),
+    n
+  );
+
+// μ(n): 0 if a square divides n, otherwise (−1)^(number of prime factors)
+export function mobius(n: number): number {
+  const factors = primeFactorisation(n);
+  if (factors.some(({ exponent }) => exponent > 1)) return 0;
+  return factors.length % 2 === 0 ? 1 : -1;
+}
+
+// ω(n): number of distinct prime factors
+export const distinctPrimeFactors = (n: number): number =>
+  primeFactorisation(n).length;
+
+// Ω(n): number of prime factors counted with multiplicity
+export const totalPrimeFactors = (n: number): number =>
+  primeFactorisation(n).reduce((count, { exponent }) => count + exponent, 0);
+
+// Largest prime below n, or null when there is none
+export function previousPrime(n: number): number | null {
+  for (let m = n - 1; m >= 2; m--) {
+    if (isPrimeByTrialDivision(m)) return m;
+  }
+  return null;
+}
+
+// Smallest prime above n
+export function nextPrime(n: number): number {
+  let m = Math.max(2, n + 1);
+  while (!isPrimeByTrialDivision(m)) m++;
+  return m;
+}
+
+// φ, σ, μ and the Mertens function M(n) = μ(1) + … + μ(n) for every n up to
+// limit; index 0 is unused
+export interface ArithmeticTables {
+  limit: number;
+  totient: Uint32Array;
+  divisorSum: Float64Array;
+  mobius: Int8Array;
+  mertens: Int32Array;
+}
+
+// One pass of Euler's linear sieve. Every n > 1 is reached exactly once as
+// p·i with p its smallest prime factor, so each multiplicative function
+// follows from its value at i: when p also divides i, n only raises the
+// power of p, otherwise p is a new coprime factor.
+export function arithmeticFunctionTables(limit: number): ArithmeticTables {
+  const size = Math.max(limit, 1) + 1;
+  const totient = new Uint32Array(size);
+  const divisorSum = new Float64Array(size);
+  const mobius = new Int8Array(size);
+  const mertens = new Int32Array(size);
+  // Largest power of the smallest prime factor dividing n, and σ of it
+  const smallestPower = new Float64Array(size);
+  const powerSigma = new Float64Array(size);
+  const primes: number[] = [];
+
+  totient[1] = divisorSum[1] = mobius[1] = mertens[1] = 1;
+  for (let i = 2; i < size; i++) {
+    if (smallestPower[i] === 0) {
+      primes.push(i);
+      totient[i] = i - 1;
+      divisorSum[i] = i + 1;
+      mobius[i] = -1;
+      smallestPower[i] = i;
+      powerSigma[i] = i + 1;
+    }
+    mertens[i] = mertens[i - 1] + mobius[i];
+
+    for (const p of primes) {
+      const n = p * i;
+      if (n >= size) break;
+      if (i % p === 0) {
+        // p^(k+1) replaces p^k in n = p·i
+        totient[n] = totient[i] * p;
+        mobius[n] = 0;
+        smallestPower[n] = smallestPower[i] * p;
+        powerSigma[n] = powerSigma[i] * p + 1;
+        divisorSum[n] = (divisorSum[i] / powerSigma[i]) * powerSigma[n];
+        break;
+      }
+      totient[n] = totient[i] * (p - 1);
+      mobius[n] = -mobius[i];
+      smallestPower[n] = p;
+      powerSigma[n] = p + 1;
+      divisorSum[n] = divisorSum[i] * (p + 1);
+    }
+  }
+
+  return { limit, totient, divisorSum, mobius, mertens };
+}
+
+// Σφ(k) ~ 3n²/π² and Σσ(k) ~ π²n²/12 for k up to n
+export const totientSumAsymptote = (n: number): number =>
+  (3 * n * n) / (Math.PI * Math.PI);
+export const divisorSumSumAsymptote = (n: number): number =>
+  (Math.PI * Math.PI * n * n) / 12;
+
+// Point on the arithmetic function charts
+export interface ArithmeticChartPoint {
+  n: number;
+  totient: number;
+  divisorSum: number;
+  mobius: number;
+  mertens: number;
+  totientSum: number;
+  totientSumAsymptote: number;
+  divisorSumSum: number;
+  divisorSumSumAsymptote: number;
+}
+
+// Every nth value when there are more than maxPoints. The sums are taken over
+// every k up to n, not just the sampled ones.
+export function sampleArithmeticFunctions(
+  tables: ArithmeticTables,
+  maxPoints: number
+): ArithmeticChartPoint[] {
+  const { limit, totient, divisorSum, mobius, mertens } = tables;
+  const stride = Math.max(1, Math.ceil(limit / maxPoints));
+  const points: ArithmeticChartPoint[] = [];
+  let totientSum = 0;
+  let divisorSumSum = 0;
+
+  for (let n = 1; n <= limit; n++) {
+    totientSum += totient[n];
+    divisorSumSum += divisorSum[n];
+    if (n % stride !== 0 && n !== limit) continue;
+    points.push({
+      n,
+      totient: totient[n],
+      divisorSum: divisorSum[n],
+      mobius: mobius[n],
+      mertens: mertens[n],
+      totientSum,
+      totientSumAsymptote: Math.round(totientSumAsymptote(n)),
+      divisorSumSum,
+      divisorSumSumAsymptote: Math.round(divisorSumSumAsymptote(n)),
+    });
+  }
+  return points;
+}
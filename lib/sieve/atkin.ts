@@ -0,0 +1,72 @@
+import { COMPOSITE, PRIME, UNMARKED, finishSieve } from "./engine";
+import { createOperationCounts, type OperationCounts } from "./operations";
+import type { AtkinForm, SieveEvent } from "./types";
+
+// Run the Sieve of Atkin over 1..limit. Numbers hit an odd number of times
+// by the right quadratic form become candidates; multiples of squares of
+// primes are then removed, and anything never confirmed is composite.
+export function* sieveOfAtkin(
+  limit: number,
+  ops: OperationCounts = createOperationCounts()
+): Generator<SieveEvent, void, undefined> {
+  // PRIME marks a candidate until the run completes
+  const marks = new Uint8Array(limit + 1);
+
+  // 2 and 3 are not produced by the quadratic forms
+  for (const p of [2, 3]) {
+    if (p > limit) break;
+    marks[p] = PRIME;
+    ops.primeSelections++;
+    yield { type: "select-prime", prime: p };
+  }
+
+  const toggle = (value: number, form: AtkinForm, x: number, y: number) => {
+    ops.arrayReads++;
+    ops.crossOffs++;
+    const on = marks[value] !== PRIME;
+    // Switching a candidate back off undoes earlier work
+    if (!on) ops.redundantMarks++;
+    marks[value] = on ? PRIME : UNMARKED;
+    return { type: "atkin-toggle" as const, value, form, x, y, on };
+  };
+
+  for (let x = 1; x * x <= limit; x++) {
+    for (let y = 1; y * y <= limit; y++) {
+      let k = 4 * x * x + y * y;
+      if (k <= limit && (k % 12 === 1 || k % 12 === 5)) {
+        yield toggle(k, "4x²+y²", x, y);
+      }
+      k = 3 * x * x + y * y;
+      if (k <= limit && k % 12 === 7) {
+        yield toggle(k, "3x²+y²", x, y);
+      }
+      k = 3 * x * x - y * y;
+      if (x > y && k <= limit && k % 12 === 11) {
+        yield toggle(k, "3x²−y²", x, y);
+      }
+    }
+  }
+
+  // Remove candidates divisible by the square of a prime
+  for (let r = 5; r * r <= limit; r++) {
+    ops.arrayReads++;
+    if (marks[r] !== PRIME) continue;
+    ops.primeSelections++;
+    yield { type: "select-prime", prime: r };
+
+    for (let k = r * r; k <= limit; k += r * r) {
+      ops.arrayReads++;
+      if (marks[k] !== PRIME) continue;
+      marks[k] = COMPOSITE;
+      ops.crossOffs++;
+      yield { type: "mark-composite", value: k, prime: r };
+    }
+  }
+
+  // Candidates above √limit are confirmed without a step of their own
+  for (let r = Math.floor(Math.sqrt(limit)) + 1; r <= limit; r++) {
+    if (r > 3 && marks[r] === PRIME) ops.primeSelections++;
+  }
+
+  yield* finishSieve(marks, limit, "composite", ops);
+}
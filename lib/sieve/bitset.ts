@@ -0,0 +1,59 @@
+// Compact sieve for large limits: one bit per number, a set bit means
+// "not prime". Used by the worker, where a PrimeNumber per cell would not fit.
+
+// How often the sieve reports progress, as a fraction of the base primes
+const PROGRESS_STEPS = 100;
+
+const setBit = (bits: Uint32Array, n: number) => {
+  bits[n >>> 5] |= 1 << (n & 31);
+};
+
+// Check if n is prime in a bitset built for the given limit
+export function isPrimeInBitset(
+  bits: Uint32Array,
+  limit: number,
+  n: number
+): boolean {
+  return n >= 2 && n <= limit && (bits[n >>> 5] & (1 << (n & 31))) === 0;
+}
+
+// Sieve 0..limit into a bitset
+export function sieveBitset(
+  limit: number,
+  onProgress?: (fraction: number) => void
+): Uint32Array {
+  const bits = new Uint32Array((limit >>> 5) + 1);
+  setBit(bits, 0);
+  setBit(bits, 1);
+
+  const root = Math.floor(Math.sqrt(limit));
+  const reportEvery = Math.max(1, Math.floor(root / PROGRESS_STEPS));
+
+  for (let p = 2; p <= root; p++) {
+    if (isPrimeInBitset(bits, limit, p)) {
+      for (let m = p * p; m <= limit; m += p) setBit(bits, m);
+    }
+    if (onProgress && p % reportEvery === 0) onProgress(p / root);
+  }
+
+  onProgress?.(1);
+  return bits;
+}
+
+// All primes in a bitset, in increasing order
+export function primesFromBitset(
+  bits: Uint32Array,
+  limit: number
+): Uint32Array {
+  let count = 0;
+  for (let n = 2; n <= limit; n++) {
+    if (isPrimeInBitset(bits, limit, n)) count++;
+  }
+
+  const primes = new Uint32Array(count);
+  let i = 0;
+  for (let n = 2; n <= limit; n++) {
+    if (isPrimeInBitset(bits, limit, n)) primes[i++] = n;
+  }
+  return primes;
+}
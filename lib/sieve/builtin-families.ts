@@ -0,0 +1,157 @@
+import type { PrimeFamilyDefinition } from "./families";
+
+// Check if a number is a power of 2
+const isPowerOfTwo = (n: number): boolean => {
+  return n > 0 && (n & (n - 1)) === 0;
+};
+
+// Known Fermat primes 2^(2^n) + 1; no others are known
+const FERMAT_PRIMES = [3, 5, 17, 257, 65537];
+
+const reverseDigits = (n: number): number => {
+  let reversed = 0;
+  for (; n > 0; n = Math.floor(n / 10)) reversed = reversed * 10 + (n % 10);
+  return reversed;
+};
+
+// Smallest prime factor by trial division, n itself when n is prime
+const smallestFactor = (n: number): number => {
+  if (n % 2 === 0) return 2;
+  for (let d = 3; d * d <= n; d += 2) {
+    if (n % d === 0) return d;
+  }
+  return n;
+};
+
+// p together with the primes at the given offsets, if they are all prime
+const constellation =
+  (offsets: number[]) =>
+  (p: number, { isPrime }: { isPrime: (n: number) => boolean }) =>
+    offsets.every((offset) => isPrime(p + offset))
+      ? [p, ...offsets.map((offset) => p + offset)]
+      : false;
+
+// Families shipped with the visualiser, in the order they are listed
+export const BUILTIN_PRIME_FAMILIES: PrimeFamilyDefinition[] = [
+  {
+    id: "twin",
+    label: "Twin Primes",
+    shortLabel: "Twin",
+    description: "Pairs of primes that differ by 2 (p, p+2)",
+    detect: constellation([2]),
+  },
+  {
+    id: "cousin",
+    label: "Cousin Primes",
+    shortLabel: "Cousin",
+    description: "Pairs of primes that differ by 4 (p, p+4)",
+    detect: constellation([4]),
+  },
+  {
+    id: "sexy",
+    label: "Sexy Primes",
+    shortLabel: "Sexy",
+    description: "Pairs of primes that differ by 6 (p, p+6)",
+    detect: constellation([6]),
+  },
+  {
+    id: "triplet",
+    label: "Prime Triplets",
+    shortLabel: "Triplet",
+    description:
+      "Three primes as close as possible: (p, p+2, p+6) or (p, p+4, p+6)",
+    detect: (p, context) =>
+      constellation([2, 6])(p, context) || constellation([4, 6])(p, context),
+  },
+  {
+    id: "quadruplet",
+    label: "Prime Quadruplets",
+    shortLabel: "Quadruplet",
+    description: "Four primes of the form (p, p+2, p+6, p+8)",
+    detect: constellation([2, 6, 8]),
+  },
+  {
+    id: "mersenne",
+    label: "Mersenne Primes",
+    shortLabel: "Mersenne",
+    description: "Primes of the form 2^n - 1",
+    detect: (p) => isPowerOfTwo(p + 1),
+  },
+  {
+    id: "fermat",
+    label: "Fermat Primes",
+    shortLabel: "Fermat",
+    description: "Primes of the form 2^(2^n) + 1",
+    detect: (p) => FERMAT_PRIMES.includes(p),
+  },
+  {
+    id: "sophie-germain",
+    label: "Sophie Germain Primes",
+    shortLabel: "Sophie Germain",
+    description: "Primes p where 2p+1 is also prime",
+    detect: (p, { isPrime }) => isPrime(2 * p + 1),
+  },
+  {
+    id: "safe",
+    label: "Safe Primes",
+    shortLabel: "Safe",
+    description: "Primes p where (p-1)/2 is also prime",
+    detect: (p, { isPrime }) => p > 3 && isPrime((p - 1) / 2),
+  },
+  {
+    id: "cunningham",
+    label: "Cunningham Chains",
+    shortLabel: "Cunningham",
+    description:
+      "Chains of at least three primes where each is twice the previous plus one (p, 2p+1, 4p+3, …)",
+    detect: (p, { isPrime }) => {
+      // Only walk each chain once, from its first prime
+      if (p > 2 && (p - 1) % 2 === 0 && isPrime((p - 1) / 2)) return false;
+      const chain = [p];
+      while (isPrime(2 * chain[chain.length - 1] + 1)) {
+        chain.push(2 * chain[chain.length - 1] + 1);
+      }
+      return chain.length >= 3 && chain;
+    },
+  },
+  {
+    id: "chen",
+    label: "Chen Primes",
+    shortLabel: "Chen",
+    description: "Primes p where p+2 is prime or a product of two primes",
+    detect: (p, { isPrime }) => {
+      if (isPrime(p + 2)) return true;
+      const factor = smallestFactor(p + 2);
+      return factor < p + 2 && isPrime((p + 2) / factor);
+    },
+  },
+  {
+    id: "balanced",
+    label: "Balanced Primes",
+    shortLabel: "Balanced",
+    description:
+      "Primes that are the average of the primes either side of them",
+    detect: (p, { primes, index }) =>
+      index > 0 &&
+      index < primes.length - 1 &&
+      primes[index - 1] + primes[index + 1] === 2 * p,
+  },
+  {
+    id: "emirp",
+    label: "Emirps",
+    shortLabel: "Emirp",
+    description:
+      "Primes that give a different prime when their digits are reversed",
+    detect: (p, { isPrime }) => {
+      const reversed = reverseDigits(p);
+      return reversed !== p && isPrime(reversed);
+    },
+  },
+  {
+    id: "palindromic",
+    label: "Palindromic Primes",
+    shortLabel: "Palindromic",
+    description: "Primes that read the same backwards",
+    detect: (p) => reverseDigits(p) === p,
+  },
+];
@@ -0,0 +1,104 @@
+import {
+  evaluateExpression,
+  parseExpression,
+  type ExpressionIssue,
+} from "./expression";
+import type { PrimeFamilyDefinition } from "./families";
+
+// A family the user wrote themselves, as it is saved
+export interface CustomFamilySource {
+  id: string;
+  name: string;
+  expression: string;
+}
+
+// Keeps custom ids apart from the built-in ones
+export const CUSTOM_FAMILY_PREFIX = "custom:";
+
+export const MAX_FAMILY_NAME_LENGTH = 40;
+
+// A few small primes to try an expression on, so runtime errors such as an
+// oversized isPrime() argument show up while it is being typed
+const SAMPLE_PRIMES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29];
+
+const isSmallPrime = (value: number): boolean => {
+  if (value < 2 || !Number.isSafeInteger(value)) return false;
+  for (let d = 2; d * d <= value; d++) {
+    if (value % d === 0) return false;
+  }
+  return true;
+};
+
+export interface CustomFamilyIssues {
+  name?: string;
+  expression?: ExpressionIssue;
+}
+
+// Problems with a family before it is saved; empty when it is valid
+export function validateCustomFamily(
+  name: string,
+  expression: string
+): CustomFamilyIssues {
+  const issues: CustomFamilyIssues = {};
+  if (name.trim() === "") issues.name = "Give the family a name";
+  else if (name.length > MAX_FAMILY_NAME_LENGTH) {
+    issues.name = `Names are limited to ${MAX_FAMILY_NAME_LENGTH} characters`;
+  }
+
+  const parsed = parseExpression(expression);
+  if (!parsed.ok) {
+    issues.expression = parsed.error;
+    return issues;
+  }
+  for (const [i, p] of SAMPLE_PRIMES.entries()) {
+    const result = evaluateExpression(parsed.expression, {
+      p,
+      n: i + 1,
+      isPrime: isSmallPrime,
+    });
+    if (!result.ok) {
+      issues.expression = result.error;
+      break;
+    }
+  }
+  return issues;
+}
+
+// Turn a saved family into a registry entry, or null if it no longer parses.
+// Runs over many primes can lower the isPrime() cap to bound the trial
+// division it falls back on.
+export function compileCustomFamily(
+  source: CustomFamilySource,
+  maxIsPrimeArgument?: number
+): PrimeFamilyDefinition | null {
+  const parsed = parseExpression(source.expression);
+  if (!parsed.ok) return null;
+
+  return {
+    id: source.id,
+    label: source.name,
+    shortLabel: source.name,
+    description: source.expression,
+    // n is the position of p among the primes, so p is the nth prime
+    detect: (p, { index, isPrime }) => {
+      const result = evaluateExpression(parsed.expression, {
+        p,
+        n: index + 1,
+        isPrime,
+        maxIsPrimeArgument,
+      });
+      return result.ok && result.value;
+    },
+  };
+}
+
+// Check the shape of families read back from storage
+export const isCustomFamilySource = (
+  value: unknown
+): value is CustomFamilySource =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as CustomFamilySource).id === "string" &&
+  (value as CustomFamilySource).id.startsWith(CUSTOM_FAMILY_PREFIX) &&
+  typeof (value as CustomFamilySource).name === "string" &&
+  typeof (value as CustomFamilySource).expression === "string";
@@ -0,0 +1,313 @@
+import {
+  identifyPrimeFamilies,
+  listPrimeFamilies,
+  primeGaps,
+  type PrimeFamilyDefinition,
+} from "./families";
+import { createOperationCounts, type OperationCounts } from "./operations";
+import type { PrimeNumber, SieveEvent, SieveState } from "./types";
+
+// Per-number marks used internally by the generators
+export const UNMARKED = 0;
+export const PRIME = 1;
+export const COMPOSITE = 2;
+
+// Shared ending of every run: sweep leftovers in as primes (or reject them,
+// for algorithms where unmarked means "never confirmed"), then report the
+// families and gaps of the final set
+export function* finishSieve(
+  marks: Uint8Array,
+  limit: number,
+  leftover: "prime" | "composite" = "prime",
+  ops: OperationCounts = createOperationCounts()
+): Generator<SieveEvent, void, undefined> {
+  // 1 is neither prime nor composite
+  const swept: number[] = [];
+  const rejected: number[] = [];
+  for (let n = 2; n <= limit; n++) {
+    ops.arrayReads++;
+    if (marks[n] !== UNMARKED) continue;
+    if (leftover === "prime") {
+      marks[n] = PRIME;
+      ops.primeSelections++;
+      swept.push(n);
+    } else {
+      marks[n] = COMPOSITE;
+      rejected.push(n);
+    }
+  }
+  yield { type: "complete", swept, rejected };
+
+  const primes: number[] = [];
+  for (let n = 2; n <= limit; n++) {
+    if (marks[n] === PRIME) primes.push(n);
+  }
+  yield familiesIdentified(primes);
+}
+
+// Families and gaps of a finished board's primes, as the event that tags them
+export const familiesIdentified = (
+  primes: number[],
+  families: PrimeFamilyDefinition[] = listPrimeFamilies()
+): SieveEvent => ({
+  type: "families-identified",
+  families: identifyPrimeFamilies(primes, undefined, families),
+  gaps: primeGaps(primes),
+});
+
+// Skip multiples of small primes entirely: only odd numbers, or only
+// numbers coprime to 2·3·5
+export type Wheel = "none" | "odd" | "2-3-5";
+
+// Optional refinements of the textbook Sieve of Eratosthenes
+export interface EratosthenesOptions {
+  // Start crossing out at p² instead of 2p
+  startAtSquare: boolean;
+  // Stop selecting primes once p² > limit and sweep the rest in as primes
+  stopAtRoot: boolean;
+  wheel: Wheel;
+}
+
+export const TEXTBOOK_ERATOSTHENES: EratosthenesOptions = {
+  startAtSquare: false,
+  stopAtRoot: false,
+  wheel: "none",
+};
+
+const WHEEL_BASIS: Record<Wheel, number[]> = {
+  none: [],
+  odd: [2],
+  "2-3-5": [2, 3, 5],
+};
+
+// Run the Sieve of Eratosthenes over 1..limit, one event per visible step
+export function* sieveOfEratosthenes(
+  limit: number,
+  ops: OperationCounts = createOperationCounts(),
+  options: EratosthenesOptions = TEXTBOOK_ERATOSTHENES
+): Generator<SieveEvent, void, undefined> {
+  const marks = new Uint8Array(limit + 1);
+  const wheelPrimes = WHEEL_BASIS[options.wheel];
+  const onWheel = (n: number) => wheelPrimes.every((p) => n % p !== 0);
+
+  // Wheel primes are known up front; everything off the wheel is greyed out
+  // without ever being crossed out
+  if (wheelPrimes.length > 0) {
+    const basis = wheelPrimes.filter((p) => p <= limit);
+    const values: number[] = [];
+    for (let n = 2; n <= limit; n++) {
+      if (!basis.includes(n) && !onWheel(n)) {
+        marks[n] = COMPOSITE;
+        values.push(n);
+      }
+    }
+    for (const p of basis) {
+      marks[p] = PRIME;
+      ops.primeSelections++;
+    }
+    yield { type: "wheel", basis, values };
+  }
+
+  for (let p = 2; p <= limit; p++) {
+    if (wheelPrimes.includes(p) || !onWheel(p)) continue;
+    if (options.stopAtRoot && p * p > limit) break;
+
+    ops.arrayReads++;
+    if (marks[p] !== UNMARKED) continue;
+
+    marks[p] = PRIME;
+    ops.primeSelections++;
+    yield { type: "select-prime", prime: p };
+
+    for (let k = options.startAtSquare ? p : 2; p * k <= limit; k++) {
+      if (!onWheel(k)) continue;
+
+      const m = p * k;
+      ops.arrayReads++;
+      ops.crossOffs++;
+      if (marks[m] === COMPOSITE) {
+        ops.redundantMarks++;
+        yield { type: "skip", value: m, prime: p };
+        continue;
+      }
+      marks[m] = COMPOSITE;
+      yield { type: "mark-composite", value: m, prime: p };
+    }
+  }
+
+  yield* finishSieve(marks, limit, "prime", ops);
+}
+
+// Fresh board with every number unmarked
+export function createSieveState(limit: number): SieveState {
+  return {
+    numbers: Array.from({ length: limit }, (_, i) => ({
+      value: i + 1,
+      state: "unmarked" as const,
+      families: [],
+    })),
+    currentPrime: 2,
+    currentMultiple: 0,
+    isComplete: false,
+    segment: null,
+  };
+}
+
+// Apply one event to a board whose numbers array the caller owns. Cells are
+// replaced rather than mutated, so earlier copies of the array stay intact.
+export function applySieveEventInPlace(
+  state: SieveState,
+  event: SieveEvent
+): void {
+  const { numbers } = state;
+  const setCell = (value: number, patch: Partial<PrimeNumber>) => {
+    numbers[value - 1] = { ...numbers[value - 1], ...patch };
+  };
+
+  switch (event.type) {
+    case "select-prime":
+      setCell(event.prime, { state: "prime" });
+      state.currentPrime = event.prime;
+      state.currentMultiple = 0;
+      break;
+
+    case "mark-composite":
+      setCell(event.value, { state: "composite" });
+      state.currentPrime = event.prime;
+      state.currentMultiple = event.value;
+      break;
+
+    case "skip":
+      state.currentPrime = event.prime;
+      state.currentMultiple = event.value;
+      break;
+
+    case "select-segment":
+      state.segment = { low: event.low, high: event.high, offset: null };
+      state.currentMultiple = 0;
+      break;
+
+    case "segment-offset":
+      if (state.segment) {
+        state.segment = {
+          ...state.segment,
+          offset: {
+            prime: event.prime,
+            firstMultiple: event.firstMultiple,
+            start: event.start,
+          },
+        };
+      }
+      state.currentPrime = event.prime;
+      state.currentMultiple = 0;
+      break;
+
+    case "sweep-segment":
+      for (const n of event.primes) {
+        setCell(n, { state: "prime" });
+      }
+      state.currentMultiple = 0;
+      break;
+
+    case "exclude":
+      for (const n of event.values) {
+        setCell(n, { state: "composite" });
+      }
+      state.currentMultiple = 0;
+      break;
+
+    case "wheel":
+      for (const p of event.basis) {
+        setCell(p, { state: "prime" });
+      }
+      for (const n of event.values) {
+        setCell(n, { state: "composite", offWheel: true });
+      }
+      state.currentMultiple = 0;
+      break;
+
+    case "sundaram-remove":
+      setCell(event.value, { state: "composite" });
+      state.currentPrime = 2 * event.i + 1;
+      state.currentMultiple = event.value;
+      break;
+
+    case "linear-stop":
+      state.currentPrime = event.prime;
+      state.currentMultiple = event.value;
+      break;
+
+    case "atkin-toggle":
+      setCell(event.value, { state: event.on ? "prime" : "unmarked" });
+      state.currentMultiple = event.value;
+      break;
+
+    case "trial-divide":
+      if (event.divides) setCell(event.value, { state: "composite" });
+      state.currentPrime = event.divisor;
+      state.currentMultiple = event.value;
+      break;
+
+    case "complete":
+      for (const n of event.swept) {
+        setCell(n, { state: "prime" });
+      }
+      for (const n of event.rejected) {
+        setCell(n, { state: "composite" });
+      }
+      state.currentMultiple = 0;
+      state.isComplete = true;
+      state.segment = null;
+      break;
+
+    case "families-identified":
+      for (let i = 0; i < numbers.length; i++) {
+        const value = numbers[i].value;
+        if (event.families[value] || event.gaps[value]) {
+          setCell(value, {
+            families: event.families[value] ?? [],
+            gap: event.gaps[value],
+          });
+        }
+      }
+      break;
+  }
+}
+
+// Numbers an event crosses out, if any
+export function crossedOutBy(event: SieveEvent): number[] {
+  switch (event.type) {
+    case "mark-composite":
+      return [event.value];
+    case "sundaram-remove":
+      return event.redundant ? [] : [event.value];
+    case "trial-divide":
+      return event.divides ? [event.value] : [];
+    case "exclude":
+    case "wheel":
+      return event.values;
+    case "complete":
+      return event.rejected;
+    default:
+      return [];
+  }
+}
+
+// Apply one event to a board, returning a new board
+export function applySieveEvent(
+  state: SieveState,
+  event: SieveEvent
+): SieveState {
+  const next = { ...state, numbers: [...state.numbers] };
+  applySieveEventInPlace(next, event);
+  return next;
+}
+
+// Run the whole sieve without animation and return the final board
+export function runSieve(limit: number): SieveState {
+  const state = createSieveState(limit);
+  for (const event of sieveOfEratosthenes(limit)) {
+    applySieveEventInPlace(state, event);
+  }
+  return state;
+}
@@ -0,0 +1,130 @@
+import { mobius } from "./arithmetic";
+import { riemannR } from "./prime-counting";
+
+// Imaginary parts γ of the first non-trivial zeros ρ = 1/2 ± iγ of the
+// Riemann zeta function, to nine decimals
+export const ZETA_ZEROS: readonly number[] = [
+  14.134725142, 21.022039639, 25.01085758, 30.424876126, 32.935061588,
+  37.586178159, 40.918719012, 43.327073281, 48.005150881, 49.773832478,
+  52.970321478, 56.446247697, 59.347044003, 60.831778525, 65.112544048,
+  67.079810529, 69.546401711, 72.067157674, 75.704690699, 77.144840069,
+  79.33737502, 82.910380854, 84.735492981, 87.425274613, 88.809111208,
+  92.491899271, 94.651344041, 95.870634228, 98.831194218, 101.317851006,
+  103.72553804, 105.446623052, 107.168611184, 111.029535543, 111.874659177,
+  114.320220915, 116.226680321, 118.790782866, 121.370125002, 122.946829294,
+  124.256818554, 127.51668388, 129.5787042, 131.087688531, 133.497737203,
+  134.756509753, 138.116042055, 139.736208952, 141.123707404, 143.111845808,
+  146.000982487, 147.422765343, 150.053520421, 150.925257612, 153.024693811,
+  156.112909294, 157.597591818, 158.849988171, 161.188964138, 163.030709687,
+  165.537069188, 167.184439978, 169.094515416, 169.911976479, 173.41153652,
+  174.754191523, 176.441434298, 178.377407776, 179.91648402, 182.207078484,
+  184.874467848, 185.598783678, 187.228922584, 189.416158656, 192.026656361,
+  193.079726604, 195.26539668, 196.876481841, 198.015309676, 201.264751944,
+  202.493594514, 204.189671803, 205.394697202, 207.906258888, 209.576509717,
+  211.690862595, 213.34791936, 214.547044783, 216.169538508, 219.067596349,
+  220.714918839, 221.430705555, 224.007000255, 224.98332467, 227.42144428,
+  229.337413306, 231.2501887, 231.987235253, 233.693404179, 236.524229666,
+];
+
+const MAX_FRACTION_TERMS = 500;
+const FRACTION_TOLERANCE = 1e-13;
+
+// Ei(z) for complex z off the real axis, from the continued fraction of
+// E1(−z) (modified Lentz): Ei(z) = −E1(−z) ± iπ, with the sign of Im z
+function exponentialIntegral(re: number, im: number): [number, number] {
+  // E1(w) = e^(−w) / (w + 1 − 1²/(w + 3 − 2²/(w + 5 − …)))
+  const [wr, wi] = [-re, -im];
+  let [br, bi] = [wr + 1, wi];
+  let [cr, ci] = [1e300, 0];
+  let [dr, di] = inverse(br, bi);
+  let [hr, hi] = [dr, di];
+  for (let k = 1; k <= MAX_FRACTION_TERMS; k++) {
+    const a = -k * k;
+    br += 2;
+    // d = 1 / (a·d + b), c = b + a / c, h = h·c·d
+    [dr, di] = inverse(a * dr + br, a * di + bi);
+    [cr, ci] = add(br, bi, ...scale(inverse(cr, ci), a));
+    const [er, ei] = multiply(cr, ci, dr, di);
+    [hr, hi] = multiply(hr, hi, er, ei);
+    if (Math.abs(er - 1) + Math.abs(ei) < FRACTION_TOLERANCE) break;
+  }
+  // e^(−w) = e^z
+  const magnitude = Math.exp(re);
+  const [e1r, e1i] = multiply(
+    hr,
+    hi,
+    magnitude * Math.cos(im),
+    magnitude * Math.sin(im)
+  );
+  return [-e1r, -e1i + Math.sign(im) * Math.PI];
+}
+
+const inverse = (re: number, im: number): [number, number] => {
+  const norm = re * re + im * im;
+  return [re / norm, -im / norm];
+};
+const multiply = (
+  ar: number,
+  ai: number,
+  br: number,
+  bi: number
+): [number, number] => [ar * br - ai * bi, ar * bi + ai * br];
+const add = (
+  ar: number,
+  ai: number,
+  br: number,
+  bi: number
+): [number, number] => [ar + br, ai + bi];
+const scale = ([re, im]: [number, number], k: number): [number, number] => [
+  re * k,
+  im * k,
+];
+
+// What the zeros 1/2 ± iγ take away from R(x): 2·Re R(x^ρ), where
+// R(x^ρ) = Σ μ(n)/n · li(x^(ρ/n)) and li(x^ρ) = Ei(ρ ln x). Terms stop once
+// x^(1/n) drops below 2, as they do for R(x) itself.
+export function zeroContribution(x: number, gamma: number): number {
+  const log = Math.log(x);
+  let sum = 0;
+  for (let n = 1; x ** (1 / n) >= 2; n++) {
+    const mu = mobius(n);
+    if (mu === 0) continue;
+    const [re] = exponentialIntegral((0.5 * log) / n, (gamma * log) / n);
+    sum += (mu / n) * re;
+  }
+  return 2 * sum;
+}
+
+// Riemann's explicit formula without the non-trivial zeros:
+// R(x) − 1/ln x + arctan(π/ln x)/π, the last two from the trivial zeros
+export function explicitFormulaBase(x: number): number {
+  const log = Math.log(x);
+  return riemannR(x) - 1 / log + Math.atan(Math.PI / log) / Math.PI;
+}
+
+// π(x) rebuilt from the first zeroCount pairs of zeros
+export function explicitPrimeCount(x: number, zeroCount: number): number {
+  let value = explicitFormulaBase(x);
+  for (const gamma of ZETA_ZEROS.slice(0, zeroCount)) {
+    value -= zeroContribution(x, gamma);
+  }
+  return value;
+}
+
+// The explicit formula at every x for each number of zeros from 0 up to
+// maxZeros, so a slider over the zero count only has to look values up:
+// table[k][i] uses the first k pairs of zeros at xs[i]
+export function explicitFormulaTable(
+  xs: number[],
+  maxZeros: number = ZETA_ZEROS.length
+): Float64Array[] {
+  const zeros = ZETA_ZEROS.slice(0, maxZeros);
+  const table = [Float64Array.from(xs, explicitFormulaBase)];
+  for (const gamma of zeros) {
+    const previous = table[table.length - 1];
+    table.push(
+      Float64Array.from(xs, (x, i) => previous[i] - zeroContribution(x, gamma))
+    );
+  }
+  return table;
+}
@@ -0,0 +1,121 @@
+import { smallestPrimeFactors } from "./factors";
+import type { ChartPoint, PrimeStats } from "./stats";
+import type { CellState, PrimeFamily, PrimeNumber } from "./types";
+
+// Data downloads of the board. Both formats are versioned: fields may be
+// added within a version, but never renamed, removed or given a new meaning
+// without bumping BOARD_EXPORT_VERSION.
+export const BOARD_EXPORT_SCHEMA = "sieve-visualizer/board";
+export const BOARD_EXPORT_VERSION = 1;
+
+// CSV header, one column per field of ExportedNumber
+export const BOARD_CSV_COLUMNS = [
+  "value",
+  "state",
+  "families",
+  "gap",
+  "smallest_prime_factor",
+] as const;
+
+// One number on the board. In the CSV, families are joined with ";" and
+// null is an empty cell.
+export interface ExportedNumber {
+  value: number;
+  // As shown on the board, so mid-run exports can have unmarked numbers
+  state: CellState;
+  // Family ids, only filled in once the run is complete
+  families: PrimeFamily[];
+  // Distance back to the previous prime found on the board, for primes
+  // after the first; otherwise null
+  gap: number | null;
+  // Smallest prime factor whatever the state (p itself for a prime p), or
+  // null for 1
+  smallestPrimeFactor: number | null;
+}
+
+// The JSON download
+export interface BoardExport {
+  schema: typeof BOARD_EXPORT_SCHEMA;
+  version: typeof BOARD_EXPORT_VERSION;
+  // ISO 8601 time of the export
+  exportedAt: string;
+  limit: number;
+  // Algorithm id, or "segmented"
+  algorithm: string;
+  step: number;
+  totalSteps: number;
+  complete: boolean;
+  numbers: ExportedNumber[];
+  // The Prime Distribution summary, computed from the primes found so far
+  primeStats: Omit<PrimeStats, "chartData">;
+  // π(n) against n/ln n, li(n) and R(n), at the points the chart samples
+  chartData: ChartPoint[];
+}
+
+export interface BoardExportContext {
+  algorithm: string;
+  step: number;
+  totalSteps: number;
+  complete: boolean;
+  stats: PrimeStats;
+}
+
+export function exportedNumbers(numbers: PrimeNumber[]): ExportedNumber[] {
+  const smallest = smallestPrimeFactors(numbers.length);
+  let previousPrime: number | null = null;
+  return numbers.map(({ value, state, families }) => {
+    const gap =
+      state === "prime" && previousPrime !== null
+        ? value - previousPrime
+        : null;
+    if (state === "prime") previousPrime = value;
+    return {
+      value,
+      state,
+      families: [...families],
+      gap,
+      smallestPrimeFactor: smallest[value] || null,
+    };
+  });
+}
+
+export function boardCsv(numbers: PrimeNumber[]): string {
+  const rows = exportedNumbers(numbers).map((row) =>
+    [
+      row.value,
+      row.state,
+      row.families.join(";"),
+      row.gap ?? "",
+      row.smallestPrimeFactor ?? "",
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return [BOARD_CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function boardJson(
+  numbers: PrimeNumber[],
+  context: BoardExportContext
+): BoardExport {
+  const { chartData, ...primeStats } = context.stats;
+  return {
+    schema: BOARD_EXPORT_SCHEMA,
+    version: BOARD_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    limit: numbers.length,
+    algorithm: context.algorithm,
+    step: context.step,
+    totalSteps: context.totalSteps,
+    complete: context.complete,
+    numbers: exportedNumbers(numbers),
+    primeStats,
+    chartData,
+  };
+}
+
+// Quote a field if it holds a comma, a quote or a line break
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
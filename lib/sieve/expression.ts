@@ -0,0 +1,412 @@
+// A tiny expression language for user-defined prime families, e.g.
+//
+//   isPrime(p + 6) and isPrime(p + 12)
+//   p ≡ 1 mod 4
+//
+// Expressions are parsed into a syntax tree and interpreted: nothing is ever
+// passed to eval or the Function constructor, and the only names in scope
+// are the variables p and n and the function isPrime.
+
+export const MAX_EXPRESSION_LENGTH = 200;
+// isPrime() uses trial division past the sieved range, so keep it cheap
+export const MAX_IS_PRIME_ARGUMENT = 1e10;
+const isPrimeTooLarge = (max: number) =>
+  `isPrime() only accepts numbers up to 10^${Math.log10(max)}`;
+
+export type ExpressionVariable = "p" | "n";
+
+export type BinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "mod"
+  | "^"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "≡"
+  | "and"
+  | "or";
+
+export type ExpressionNode =
+  | { kind: "number"; value: number }
+  | { kind: "variable"; name: ExpressionVariable }
+  | { kind: "negate"; operand: ExpressionNode }
+  | { kind: "not"; operand: ExpressionNode }
+  | { kind: "isPrime"; argument: ExpressionNode; position: number }
+  | {
+      kind: "binary";
+      operator: BinaryOperator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    };
+
+// Where and why an expression was rejected; position is a character offset
+export interface ExpressionIssue {
+  message: string;
+  position: number;
+}
+
+export type ParseResult =
+  | { ok: true; expression: ExpressionNode }
+  | { ok: false; error: ExpressionIssue };
+
+export interface ExpressionScope {
+  p: number;
+  n: number;
+  isPrime: (value: number) => boolean;
+  // Largest isPrime() argument as a power of ten, MAX_IS_PRIME_ARGUMENT
+  // unless a caller needs it lower
+  maxIsPrimeArgument?: number;
+}
+
+// Thrown inside the parser and evaluator, and turned into an
+// ExpressionIssue at the public boundary
+class ExpressionError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+interface Token {
+  type: "number" | "name" | "symbol" | "end";
+  text: string;
+  position: number;
+}
+
+// Longest symbols first so "<=" wins over "<"
+const SYMBOLS = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "≠",
+  "≤",
+  "≥",
+  "≡",
+  "+",
+  "-",
+  "−",
+  "*",
+  "×",
+  "/",
+  "%",
+  "^",
+  "(",
+  ")",
+  "<",
+  ">",
+  "=",
+  "!",
+];
+
+// Spellings accepted for each operator
+const ALIASES: Record<string, string> = {
+  "−": "-",
+  "×": "*",
+  "%": "mod",
+  "=": "==",
+  "≠": "!=",
+  "≤": "<=",
+  "≥": ">=",
+  "&&": "and",
+  "||": "or",
+  "!": "not",
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: "number", text: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_]\w*/.exec(source.slice(i));
+    if (name) {
+      const text = name[0];
+      const lower = text.toLowerCase();
+      const isWord = ["mod", "and", "or", "not"].includes(lower);
+      tokens.push({
+        type: isWord ? "symbol" : "name",
+        text: isWord ? lower : text,
+        position: i,
+      });
+      i += text.length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((s) => source.startsWith(s, i));
+    if (!symbol) throw new ExpressionError(`Unexpected "${char}"`, i);
+    tokens.push({
+      type: "symbol",
+      text: ALIASES[symbol] ?? symbol,
+      position: i,
+    });
+    i += symbol.length;
+  }
+
+  tokens.push({ type: "end", text: "", position: source.length });
+  return tokens;
+}
+
+const COMPARISONS = ["==", "!=", "<", "<=", ">", ">=", "≡"];
+
+// Recursive descent, lowest precedence first:
+// or → and → not → comparison → sum → product → unary → power → primary
+function parseTokens(tokens: Token[]): ExpressionNode {
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const accept = (text: string) => {
+    if (peek().type === "symbol" && peek().text === text) return next();
+    return null;
+  };
+  const expect = (text: string, what: string) => {
+    const token = accept(text);
+    if (!token) throw new ExpressionError(`Expected ${what}`, peek().position);
+    return token;
+  };
+
+  const binaryLevel =
+    (operators: string[], operand: () => ExpressionNode) =>
+    (): ExpressionNode => {
+      let left = operand();
+      for (;;) {
+        const token = peek();
+        if (token.type !== "symbol" || !operators.includes(token.text)) {
+          return left;
+        }
+        next();
+        left = {
+          kind: "binary",
+          operator: token.text as BinaryOperator,
+          left,
+          right: operand(),
+        };
+      }
+    };
+
+  const primary = (): ExpressionNode => {
+    const token = next();
+    if (token.type === "number") {
+      return { kind: "number", value: Number(token.text) };
+    }
+    if (token.type === "name") {
+      if (token.text === "p" || token.text === "n") {
+        return { kind: "variable", name: token.text };
+      }
+      if (token.text === "isPrime") {
+        expect("(", `"(" after isPrime`);
+        const argument = or();
+        expect(")", `")" to close isPrime(`);
+        return { kind: "isPrime", argument, position: token.position };
+      }
+      throw new ExpressionError(
+        `Unknown name "${token.text}": use p, n or isPrime()`,
+        token.position
+      );
+    }
+    if (token.type === "symbol" && token.text === "(") {
+      const inner = or();
+      expect(")", `")"`);
+      return inner;
+    }
+    throw new ExpressionError(
+      token.type === "end"
+        ? "Expression ends too early"
+        : `Unexpected "${token.text}"`,
+      token.position
+    );
+  };
+
+  // Exponentiation is right-associative and binds tighter than unary minus
+  const power = (): ExpressionNode => {
+    const base = primary();
+    if (!accept("^")) return base;
+    return { kind: "binary", operator: "^", left: base, right: unary() };
+  };
+
+  const unary = (): ExpressionNode => {
+    if (accept("-")) return { kind: "negate", operand: unary() };
+    if (accept("+")) return unary();
+    return power();
+  };
+
+  const product = binaryLevel(["*", "/", "mod"], unary);
+  const sum = binaryLevel(["+", "-"], product);
+  const comparison = (): ExpressionNode => {
+    const left = sum();
+    const token = peek();
+    if (token.type !== "symbol" || !COMPARISONS.includes(token.text)) {
+      return left;
+    }
+    next();
+    return {
+      kind: "binary",
+      operator: token.text as BinaryOperator,
+      left,
+      right: sum(),
+    };
+  };
+  const not = (): ExpressionNode =>
+    accept("not") ? { kind: "not", operand: not() } : comparison();
+  const and = binaryLevel(["and"], not);
+  const or = binaryLevel(["or"], and);
+
+  const expression = or();
+  const rest = peek();
+  if (rest.type !== "end") {
+    throw new ExpressionError(`Unexpected "${rest.text}"`, rest.position);
+  }
+  return expression;
+}
+
+// Parse an expression, reporting the first problem found
+export function parseExpression(source: string): ParseResult {
+  if (source.trim() === "") {
+    return {
+      ok: false,
+      error: { message: "Enter an expression", position: 0 },
+    };
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    return {
+      ok: false,
+      error: {
+        message: `Expressions are limited to ${MAX_EXPRESSION_LENGTH} characters`,
+        position: MAX_EXPRESSION_LENGTH,
+      },
+    };
+  }
+
+  try {
+    return { ok: true, expression: parseTokens(tokenize(source)) };
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return {
+        ok: false,
+        error: { message: error.message, position: error.position },
+      };
+    }
+    throw error;
+  }
+}
+
+// Mathematical modulus: the result has the sign of the divisor
+const modulo = (a: number, m: number) => ((a % m) + m) % m;
+
+const truthy = (value: number) => value !== 0 && !Number.isNaN(value);
+
+function evaluate(node: ExpressionNode, scope: ExpressionScope): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "variable":
+      return scope[node.name];
+    case "negate":
+      return -evaluate(node.operand, scope);
+    case "not":
+      return truthy(evaluate(node.operand, scope)) ? 0 : 1;
+    case "isPrime": {
+      const value = evaluate(node.argument, scope);
+      const max = scope.maxIsPrimeArgument ?? MAX_IS_PRIME_ARGUMENT;
+      if (value > max) {
+        throw new ExpressionError(isPrimeTooLarge(max), node.position);
+      }
+      return Number.isInteger(value) && scope.isPrime(value) ? 1 : 0;
+    }
+    case "binary":
+      break;
+  }
+
+  const { operator, left, right } = node;
+  // Short-circuit the logical operators
+  if (operator === "and") {
+    return truthy(evaluate(left, scope)) && truthy(evaluate(right, scope))
+      ? 1
+      : 0;
+  }
+  if (operator === "or") {
+    return truthy(evaluate(left, scope)) || truthy(evaluate(right, scope))
+      ? 1
+      : 0;
+  }
+  // a ≡ b mod m compares a and b modulo m
+  if (operator === "≡" && right.kind === "binary" && right.operator === "mod") {
+    const m = evaluate(right.right, scope);
+    return modulo(evaluate(left, scope), m) ===
+      modulo(evaluate(right.left, scope), m)
+      ? 1
+      : 0;
+  }
+
+  const a = evaluate(left, scope);
+  const b = evaluate(right, scope);
+  switch (operator) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return a / b;
+    case "mod":
+      return modulo(a, b);
+    case "^":
+      return a ** b;
+    case "==":
+    case "≡":
+      return a === b ? 1 : 0;
+    case "!=":
+      return a !== b ? 1 : 0;
+    case "<":
+      return a < b ? 1 : 0;
+    case "<=":
+      return a <= b ? 1 : 0;
+    case ">":
+      return a > b ? 1 : 0;
+    case ">=":
+      return a >= b ? 1 : 0;
+  }
+}
+
+export type EvaluationResult =
+  | { ok: true; value: boolean }
+  | { ok: false; error: ExpressionIssue };
+
+// Whether the expression holds for the given p and n. Non-zero numbers count
+// as true, so "p mod 4 - 1" is a valid (if odd) way to write p ≢ 1.
+export function evaluateExpression(
+  expression: ExpressionNode,
+  scope: ExpressionScope
+): EvaluationResult {
+  try {
+    return { ok: true, value: truthy(evaluate(expression, scope)) };
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return {
+        ok: false,
+        error: { message: error.message, position: error.position },
+      };
+    }
+    throw error;
+  }
+}
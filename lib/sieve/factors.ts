@@ -0,0 +1,97 @@
+// Greatest common divisor by Euclid's algorithm
+export function gcd(a: number, b: number): number {
+  while (b !== 0) [a, b] = [b, a % b];
+  return Math.abs(a);
+}
+
+// Trial division, for numbers beyond the sieved range
+export const isPrimeByTrialDivision = (n: number): boolean => {
+  if (n < 2 || !Number.isSafeInteger(n)) return false;
+  if (n % 2 === 0) return n === 2;
+  for (let d = 3; d * d <= n; d += 2) {
+    if (n % d === 0) return false;
+  }
+  return true;
+};
+
+// One prime power in a factorisation, p^k
+export interface PrimePower {
+  prime: number;
+  exponent: number;
+}
+
+// Complete prime factorisation by trial division, smallest prime first.
+// 1 has the empty factorisation.
+export function primeFactorisation(n: number): PrimePower[] {
+  const factors: PrimePower[] = [];
+  let rest = n;
+  for (let p = 2; p * p <= rest; p += p === 2 ? 1 : 2) {
+    if (rest % p !== 0) continue;
+    let exponent = 0;
+    while (rest % p === 0) {
+      rest /= p;
+      exponent++;
+    }
+    factors.push({ prime: p, exponent });
+  }
+  if (rest > 1) factors.push({ prime: rest, exponent: 1 });
+  return factors;
+}
+
+const SUPERSCRIPTS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+const superscript = (n: number) =>
+  Array.from(String(n), (digit) => SUPERSCRIPTS[Number(digit)]).join("");
+
+// "2³ × 3² × 5"
+export const formatFactorisation = (factors: PrimePower[]): string =>
+  factors.length === 0
+    ? "1"
+    : factors
+        .map(({ prime, exponent }) =>
+          exponent > 1 ? `${prime}${superscript(exponent)}` : `${prime}`
+        )
+        .join(" × ");
+
+// Every divisor of n in increasing order, built from its factorisation
+export function divisors(n: number): number[] {
+  let result = [1];
+  for (const { prime, exponent } of primeFactorisation(n)) {
+    const next: number[] = [];
+    for (const divisor of result) {
+      for (let k = 0, power = 1; k <= exponent; k++, power *= prime) {
+        next.push(divisor * power);
+      }
+    }
+    result = next;
+  }
+  return result.sort((a, b) => a - b);
+}
+
+// A factor tree: every composite splits into its smallest prime factor and
+// the cofactor, until only primes are left at the leaves
+export interface FactorTreeNode {
+  value: number;
+  children?: [FactorTreeNode, FactorTreeNode];
+}
+
+export function factorTree(n: number): FactorTreeNode {
+  const [smallest] = primeFactorisation(n);
+  if (!smallest || smallest.prime === n) return { value: n };
+  return {
+    value: n,
+    children: [{ value: smallest.prime }, factorTree(n / smallest.prime)],
+  };
+}
+
+// Smallest prime factor of every n up to limit, with 0 for 0 and 1
+export function smallestPrimeFactors(limit: number): Uint32Array {
+  const smallest = new Uint32Array(Math.max(0, limit) + 1);
+  for (let p = 2; p <= limit; p++) {
+    if (smallest[p] !== 0) continue;
+    for (let multiple = p; multiple <= limit; multiple += p) {
+      if (smallest[multiple] === 0) smallest[multiple] = p;
+    }
+  }
+  return smallest;
+}
@@ -0,0 +1,153 @@
+import { BUILTIN_PRIME_FAMILIES } from "./builtin-families";
+import { isPrimeByTrialDivision } from "./factors";
+import type { PrimeFamily } from "./types";
+
+// What a detector knows about the prime it is looking at
+export interface FamilyContext {
+  // Every prime up to the limit, in order, and the position of p among them
+  primes: ArrayLike<number>;
+  index: number;
+  // Primality test that also works above the largest prime found
+  isPrime: (n: number) => boolean;
+}
+
+// A family of primes the visualiser can detect, filter and count
+export interface PrimeFamilyDefinition {
+  id: PrimeFamily;
+  label: string;
+  // Used on badges, where the full label is too long
+  shortLabel: string;
+  description: string;
+  // Whether p belongs to the family. Families made of several primes, like
+  // twins, return every member instead so they are all tagged at once.
+  detect: (p: number, context: FamilyContext) => boolean | number[];
+}
+
+const registry = new Map<PrimeFamily, PrimeFamilyDefinition>(
+  BUILTIN_PRIME_FAMILIES.map((family) => [family.id, family])
+);
+
+// Add a family, or replace the one with the same id
+export function registerPrimeFamily(family: PrimeFamilyDefinition): void {
+  registry.set(family.id, family);
+}
+
+export function unregisterPrimeFamily(id: PrimeFamily): void {
+  registry.delete(id);
+}
+
+// Registered families, in registration order
+export const listPrimeFamilies = (): PrimeFamilyDefinition[] =>
+  Array.from(registry.values());
+
+export const getPrimeFamily = (
+  id: PrimeFamily
+): PrimeFamilyDefinition | undefined => registry.get(id);
+
+// How often family detection reports progress, in primes
+const PROGRESS_CHUNK = 1 << 16;
+
+// Call visit for every (member, family) pair among the given primes, one
+// family at a time. Large runs pass their own primality test instead of
+// building a Set of every prime.
+function visitFamilyMembers(
+  primes: ArrayLike<number>,
+  isPrime: ((n: number) => boolean) | undefined,
+  families: PrimeFamilyDefinition[],
+  visit: (member: number, family: PrimeFamily) => void,
+  onProgress?: (fraction: number) => void
+): void {
+  if (!isPrime) {
+    const primeSet = new Set(Array.from(primes));
+    isPrime = (n) => primeSet.has(n);
+  }
+  const largest = primes.length > 0 ? primes[primes.length - 1] : 0;
+  const test = isPrime;
+  const context: FamilyContext = {
+    primes,
+    index: 0,
+    isPrime: (n) => (n <= largest ? test(n) : isPrimeByTrialDivision(n)),
+  };
+
+  const total = families.length * primes.length;
+  families.forEach((family, f) => {
+    for (let i = 0; i < primes.length; i++) {
+      if (onProgress && i % PROGRESS_CHUNK === 0) {
+        onProgress((f * primes.length + i) / total);
+      }
+      const p = primes[i];
+      context.index = i;
+      const members = family.detect(p, context);
+      if (members === true) visit(p, family.id);
+      else if (members) {
+        // Members beyond the largest prime are off the board
+        for (const member of members) {
+          if (member <= largest) visit(member, family.id);
+        }
+      }
+    }
+  });
+  onProgress?.(1);
+}
+
+// Special families of each prime, listed in registry order
+export function identifyPrimeFamilies(
+  primes: ArrayLike<number>,
+  isPrime?: (n: number) => boolean,
+  families: PrimeFamilyDefinition[] = listPrimeFamilies()
+): Record<number, PrimeFamily[]> {
+  const result: Record<number, PrimeFamily[]> = {};
+  visitFamilyMembers(primes, isPrime, families, (member, family) => {
+    const list = (result[member] ??= []);
+    if (list[list.length - 1] !== family) list.push(family);
+  });
+  return result;
+}
+
+// Family sizes without building a list per prime, for large runs, which
+// can follow along through onProgress
+export function countFamilyMembers(
+  primes: ArrayLike<number>,
+  isPrime?: (n: number) => boolean,
+  families: PrimeFamilyDefinition[] = listPrimeFamilies(),
+  onProgress?: (fraction: number) => void
+): Partial<Record<PrimeFamily, number>> {
+  const members = new Map<PrimeFamily, Set<number>>(
+    families.map((family) => [family.id, new Set()])
+  );
+  visitFamilyMembers(
+    primes,
+    isPrime,
+    families,
+    (member, family) => members.get(family)?.add(member),
+    onProgress
+  );
+
+  const counts: Partial<Record<PrimeFamily, number>> = {};
+  members.forEach((set, family) => {
+    counts[family] = set.size;
+  });
+  return counts;
+}
+
+// Number of primes in each family
+export function countPrimeFamilies(
+  families: Record<number, PrimeFamily[]>
+): Partial<Record<PrimeFamily, number>> {
+  const counts: Partial<Record<PrimeFamily, number>> = {};
+  for (const list of Object.values(families)) {
+    for (const family of list) {
+      counts[family] = (counts[family] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+// Gap from each prime to the previous one
+export function primeGaps(primes: ArrayLike<number>): Record<number, number> {
+  const gaps: Record<number, number> = {};
+  for (let i = 1; i < primes.length; i++) {
+    gaps[primes[i]] = primes[i] - primes[i - 1];
+  }
+  return gaps;
+}
@@ -0,0 +1,102 @@
+import type { PrimeFamily, PrimeNumber } from "./types";
+
+// Several families combined with set logic: the included families joined by
+// AND or OR, minus every excluded family. "twin AND NOT sophie-germain" is
+// { include: ["twin"], exclude: ["sophie-germain"], combinator: "and" }.
+export interface FamilyFilter {
+  include: PrimeFamily[];
+  exclude: PrimeFamily[];
+  combinator: "and" | "or";
+}
+
+export const EMPTY_FAMILY_FILTER: FamilyFilter = {
+  include: [],
+  exclude: [],
+  combinator: "or",
+};
+
+// Largest number of families whose Venn regions are listed
+export const MAX_OVERLAP_FAMILIES = 4;
+
+export const isFamilyFilterActive = (filter: FamilyFilter): boolean =>
+  filter.include.length > 0 || filter.exclude.length > 0;
+
+// Whether a prime with these families is in the combined set
+export function matchesFamilyFilter(
+  families: PrimeFamily[],
+  filter: FamilyFilter
+): boolean {
+  const { include, exclude, combinator } = filter;
+  if (exclude.some((family) => families.includes(family))) return false;
+  if (include.length === 0) return exclude.length > 0;
+  return combinator === "and"
+    ? include.every((family) => families.includes(family))
+    : include.some((family) => families.includes(family));
+}
+
+// Whether a cell should be highlighted: only primes belong to families
+export const highlightsNumber = (
+  number: PrimeNumber,
+  filter: FamilyFilter
+): boolean =>
+  number.state === "prime" &&
+  isFamilyFilterActive(filter) &&
+  matchesFamilyFilter(number.families, filter);
+
+// Drop families that are no longer registered
+export const pruneFamilyFilter = (
+  filter: FamilyFilter,
+  known: (family: PrimeFamily) => boolean
+): FamilyFilter => ({
+  ...filter,
+  include: filter.include.filter(known),
+  exclude: filter.exclude.filter(known),
+});
+
+// "twin AND cousin AND NOT sophie-germain"
+export function describeFamilyFilter(
+  filter: FamilyFilter,
+  label: (family: PrimeFamily) => string = (family) => family
+): string {
+  const joiner = filter.combinator === "and" ? " AND " : " OR ";
+  const included = filter.include.map(label).join(joiner);
+  const excluded = filter.exclude.map((family) => `NOT ${label(family)}`);
+  const parts =
+    filter.include.length > 1 && excluded.length > 0
+      ? [`(${included})`, ...excluded]
+      : [included, ...excluded].filter((part) => part !== "");
+  return parts.join(" AND ");
+}
+
+// One region of a Venn diagram: primes in exactly these families among the
+// ones being compared
+export interface FamilyOverlap {
+  families: PrimeFamily[];
+  count: number;
+}
+
+// Size of every non-empty Venn region for the given families, largest
+// intersections first. Primes in none of them are left out.
+export function familyOverlaps(
+  primeFamilies: Iterable<PrimeFamily[]>,
+  families: PrimeFamily[]
+): FamilyOverlap[] {
+  const compared = families.slice(0, MAX_OVERLAP_FAMILIES);
+  const counts = new Array<number>(1 << compared.length).fill(0);
+
+  for (const list of primeFamilies) {
+    let mask = 0;
+    compared.forEach((family, bit) => {
+      if (list.includes(family)) mask |= 1 << bit;
+    });
+    if (mask !== 0) counts[mask]++;
+  }
+
+  return counts
+    .map((count, mask) => ({
+      families: compared.filter((_, bit) => mask & (1 << bit)),
+      count,
+    }))
+    .filter((region) => region.families.length > 0)
+    .sort((a, b) => b.families.length - a.families.length || b.count - a.count);
+}
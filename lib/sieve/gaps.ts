@@ -0,0 +1,82 @@
+// How often each gap between consecutive primes occurs
+export interface GapCount {
+  gap: number;
+  count: number;
+}
+
+// A maximal gap: larger than every gap before it. start and end are the
+// consecutive primes on either side.
+export interface RecordGap {
+  gap: number;
+  start: number;
+  end: number;
+  // Cramér's conjecture bounds gaps after p by roughly (ln p)²
+  cramer: number;
+}
+
+// The jumping champions (most common gaps among primes up to some x) change
+// at the prime at; ties share the title
+export interface ChampionChange {
+  at: number;
+  champions: number[];
+}
+
+export interface GapAnalysis {
+  histogram: GapCount[];
+  records: RecordGap[];
+  champions: ChampionChange[];
+}
+
+export const cramerBound = (p: number): number => Math.log(p) ** 2;
+
+// Histogram, record gaps and jumping champions in one pass over the primes
+export function analyseGaps(primes: ArrayLike<number>): GapAnalysis {
+  const counts = new Map<number, number>();
+  const records: RecordGap[] = [];
+  const champions: ChampionChange[] = [];
+  let leaders: number[] = [];
+  let leadingCount = 0;
+
+  for (let i = 1; i < primes.length; i++) {
+    const start = primes[i - 1];
+    const gap = primes[i] - start;
+    const count = (counts.get(gap) ?? 0) + 1;
+    counts.set(gap, count);
+
+    if (records.length === 0 || gap > records[records.length - 1].gap) {
+      records.push({ gap, start, end: primes[i], cramer: cramerBound(start) });
+    }
+
+    if (count > leadingCount) {
+      leadingCount = count;
+      // The sole champion pulling further ahead is not a change
+      if (leaders.length === 1 && leaders[0] === gap) continue;
+      leaders = [gap];
+    } else if (count === leadingCount) {
+      leaders = [...leaders, gap].sort((a, b) => a - b);
+    } else {
+      continue;
+    }
+    champions.push({ at: primes[i], champions: leaders });
+  }
+
+  const histogram = Array.from(counts, ([gap, count]) => ({ gap, count })).sort(
+    (a, b) => a.gap - b.gap
+  );
+  return { histogram, records, champions };
+}
+
+// Both primes of every consecutive pair that is exactly gap apart
+export function primePairsWithGap(
+  primes: ArrayLike<number>,
+  gap: number
+): Set<number> {
+  const members = new Set<number>();
+  for (let i = 1; i < primes.length; i++) {
+    if (primes[i] - primes[i - 1] === gap) {
+      members.add(primes[i - 1]);
+      members.add(primes[i]);
+    }
+  }
+  return members;
+}
@@ -0,0 +1,82 @@
+// Goldbach partitions: ways of writing an even number as a sum of two primes
+
+// Counting every even number is quadratic in π(limit), so the comet stops
+// here
+export const GOLDBACH_MAX = 100_000;
+
+// One column of the Goldbach comet: g(n), the number of ways to write n as
+// p + q with primes p ≤ q
+export interface GoldbachPoint {
+  n: number;
+  partitions: number;
+}
+
+export const isGoldbachNumber = (n: number, limit: number) =>
+  Number.isInteger(n) && n >= 4 && n % 2 === 0 && n <= limit;
+
+// Index of the first prime greater than value
+function upperBound(primes: ArrayLike<number>, value: number): number {
+  let low = 0;
+  let high = primes.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (primes[middle] <= value) low = middle + 1;
+    else high = middle;
+  }
+  return high;
+}
+
+// Every pair of primes p ≤ q with p + q = n, smallest p first. The primes
+// must run in order up to at least n − 2.
+export function goldbachPartitions(
+  primes: ArrayLike<number>,
+  n: number
+): [number, number][] {
+  const partitions: [number, number][] = [];
+  let high = upperBound(primes, n - 2) - 1;
+  for (let low = 0; low <= high && primes[low] <= n / 2; low++) {
+    const p = primes[low];
+    while (high > low && primes[high] > n - p) high--;
+    if (primes[high] === n - p) partitions.push([p, n - p]);
+  }
+  return partitions;
+}
+
+// Both primes of every partition of n, for highlighting on the board
+export function goldbachPrimes(
+  primes: ArrayLike<number>,
+  n: number
+): Set<number> {
+  return new Set(goldbachPartitions(primes, n).flat());
+}
+
+// g(n) for every even n in 4..limit, taking every stride-th even number so
+// at most maxPoints columns come back. Sums of pairs are tallied in one pass
+// over the primes up to limit.
+export function goldbachComet(
+  primes: ArrayLike<number>,
+  limit: number,
+  maxPoints = 3000
+): GoldbachPoint[] {
+  const counts = new Uint32Array(Math.floor(limit / 2) + 1);
+  const end = upperBound(primes, limit);
+  // 2 only pairs with itself, so start at the first odd prime
+  for (let i = 0; i < end; i++) {
+    const p = primes[i];
+    if (p === 2) continue;
+    for (let j = i; j < end; j++) {
+      const sum = p + primes[j];
+      if (sum > limit) break;
+      counts[sum >> 1]++;
+    }
+  }
+  if (limit >= 4 && end > 0 && primes[0] === 2) counts[2]++;
+
+  const evens = Math.max(0, Math.floor(limit / 2) - 1);
+  const stride = Math.max(1, Math.ceil(evens / maxPoints));
+  const points: GoldbachPoint[] = [];
+  for (let half = 2; half <= limit / 2; half += stride) {
+    points.push({ n: half * 2, partitions: counts[half] });
+  }
+  return points;
+}
@@ -0,0 +1,185 @@
+import {
+  applySieveEventInPlace,
+  createSieveState,
+  crossedOutBy,
+  sieveOfEratosthenes,
+} from "./engine";
+import {
+  createOperationCounts,
+  type OperationCounts,
+  type SieveRun,
+} from "./operations";
+import type { SieveEvent, SieveState } from "./types";
+
+// Upper bound on stored board snapshots, whatever the length of the run
+const MAX_CHECKPOINTS = 64;
+const MIN_CHECKPOINT_INTERVAL = 32;
+
+// A fully recorded sieve run that can be replayed to any step
+export interface SieveHistory {
+  limit: number;
+  // Events grouped into user-visible steps
+  steps: SieveEvent[][];
+  // checkpoints[i] is the board after i * interval steps
+  checkpoints: SieveState[];
+  interval: number;
+  // Step index (1-based) at which each composite was first crossed out
+  crossedOutAt: Map<number, number>;
+  // Cumulative operation counts after each step, OPERATION_FIELDS per step
+  operations: Float64Array;
+  // Primes on the finished board, for tagging their families
+  primes: number[];
+}
+
+const OPERATION_FIELDS: (keyof OperationCounts)[] = [
+  "crossOffs",
+  "redundantMarks",
+  "primeSelections",
+  "arrayReads",
+];
+
+const cloneState = (state: SieveState): SieveState => ({
+  ...state,
+  numbers: [...state.numbers],
+});
+
+// Record every step of a run, keeping periodic snapshots for fast seeking.
+// The run ends with "complete": families are left out, since they depend on
+// the registry rather than the run. Tag them on the finished board with
+// familiesIdentified(history.primes), so editing a family needs no new
+// recording.
+export function recordSieve(
+  limit: number,
+  run: SieveRun = sieveOfEratosthenes
+): SieveHistory {
+  const ops = createOperationCounts();
+  const steps: SieveEvent[][] = [];
+  const counts: number[] = OPERATION_FIELDS.map(() => 0);
+
+  let group: SieveEvent[] = [];
+  const closeGroup = () => {
+    steps.push(group);
+    group = [];
+    for (const field of OPERATION_FIELDS) counts.push(ops[field]);
+  };
+  for (const event of run(limit, ops)) {
+    group.push(event);
+    closeGroup();
+    // Stop before the run goes on to identify families
+    if (event.type === "complete") break;
+  }
+
+  const interval = Math.max(
+    MIN_CHECKPOINT_INTERVAL,
+    Math.ceil(steps.length / MAX_CHECKPOINTS)
+  );
+
+  const state = createSieveState(limit);
+  const checkpoints: SieveState[] = [cloneState(state)];
+  const crossedOutAt = new Map<number, number>();
+
+  steps.forEach((step, i) => {
+    for (const event of step) {
+      applySieveEventInPlace(state, event);
+      for (const value of crossedOutBy(event)) {
+        if (!crossedOutAt.has(value)) crossedOutAt.set(value, i + 1);
+      }
+    }
+    if ((i + 1) % interval === 0) checkpoints.push(cloneState(state));
+  });
+
+  return {
+    limit,
+    steps,
+    checkpoints,
+    interval,
+    crossedOutAt,
+    operations: Float64Array.from(counts),
+    primes: state.numbers
+      .filter((n) => n.state === "prime")
+      .map((n) => n.value),
+  };
+}
+
+// Work done by the run up to the given step
+export function operationsAtStep(
+  history: SieveHistory,
+  step: number
+): OperationCounts {
+  const target = Math.max(0, Math.min(step, history.steps.length));
+  const ops = createOperationCounts();
+  OPERATION_FIELDS.forEach((field, i) => {
+    ops[field] = history.operations[target * OPERATION_FIELDS.length + i];
+  });
+  return ops;
+}
+
+// Apply a single recorded step to a board, returning a new board
+export function applyStep(state: SieveState, step: SieveEvent[]): SieveState {
+  const next = cloneState(state);
+  for (const event of step) applySieveEventInPlace(next, event);
+  return next;
+}
+
+// Rebuild the board as it was after the given number of steps
+export function stateAtStep(history: SieveHistory, step: number): SieveState {
+  const target = Math.max(0, Math.min(step, history.steps.length));
+  const index = Math.min(
+    Math.floor(target / history.interval),
+    history.checkpoints.length - 1
+  );
+
+  const state = cloneState(history.checkpoints[index]);
+  for (let i = index * history.interval; i < target; i++) {
+    for (const event of history.steps[i]) applySieveEventInPlace(state, event);
+  }
+  return state;
+}
+
+// Short human-readable description of a recorded step
+export function describeStep(step: SieveEvent[] | undefined): string {
+  const event = step?.[step.length - 1];
+  if (!event) return "Ready to start";
+
+  switch (event.type) {
+    case "select-prime":
+      return `${event.prime} is prime`;
+    case "mark-composite":
+      return event.factor !== undefined
+        ? `Crossed out ${event.value} = ${event.prime} × ${event.factor}`
+        : `Crossed out ${event.value} (multiple of ${event.prime})`;
+    case "skip":
+      return `${event.value} is already crossed out (multiple of ${event.prime})`;
+    case "select-segment":
+      return `Sieving window [${event.low}, ${event.high}]`;
+    case "segment-offset":
+      return `First multiple of ${event.prime} in window: ⌈${event.low}/${event.prime}⌉·${event.prime} = ${event.firstMultiple}`;
+    case "sweep-segment":
+      return `Window [${event.low}, ${event.high}] done: ${event.primes.length} primes`;
+    case "exclude":
+      return event.reason;
+    case "wheel":
+      return `Wheel ${event.basis.join("·")}: ${
+        event.values.length
+      } numbers with a factor ${event.basis.join(", ")} are skipped`;
+    case "sundaram-remove":
+      return `i=${event.i}, j=${event.j}: removed ${
+        event.i + event.j + 2 * event.i * event.j
+      }, so ${event.value} = ${2 * event.i + 1} × ${
+        2 * event.j + 1
+      } is composite${event.redundant ? " (already removed)" : ""}`;
+    case "linear-stop":
+      return `${event.prime} divides ${event.value}, move on to the next number`;
+    case "atkin-toggle":
+      return `${event.form} = ${event.value} (x=${event.x}, y=${
+        event.y
+      }): toggled ${event.on ? "on" : "off"}`;
+    case "trial-divide":
+      return event.divides
+        ? `${event.divisor} divides ${event.value}: composite`
+        : `${event.divisor} does not divide ${event.value}`;
+    case "complete":
+    case "families-identified":
+      return "Sieve complete";
+  }
+}
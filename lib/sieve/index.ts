@@ -0,0 +1,29 @@
+export * from "./types";
+export * from "./engine";
+export * from "./families";
+export * from "./builtin-families";
+export * from "./factors";
+export * from "./arithmetic";
+export * from "./history";
+export * from "./stats";
+export * from "./bitset";
+export * from "./large";
+export * from "./segmented";
+export * from "./sundaram";
+export * from "./linear";
+export * from "./atkin";
+export * from "./trial-division";
+export * from "./algorithms";
+export * from "./operations";
+export * from "./optimisations";
+export * from "./spiral";
+export * from "./residues";
+export * from "./expression";
+export * from "./custom-families";
+export * from "./family-filter";
+export * from "./gaps";
+export * from "./prime-counting";
+export * from "./explicit-formula";
+export * from "./prime-race";
+export * from "./goldbach";
+export * from "./export";
@@ -0,0 +1,58 @@
+import { isPrimeInBitset, primesFromBitset, sieveBitset } from "./bitset";
+import { countFamilyMembers, listPrimeFamilies } from "./families";
+import { summarizePrimes, type PrimeStats } from "./stats";
+import type { CustomFamilySource } from "./custom-families";
+import type { PrimeFamily } from "./types";
+
+// Largest limit offered by the large-range mode
+export const LARGE_SIEVE_MAX = 10_000_000;
+// isPrime() cap for custom families here: the trial division past the
+// sieved range runs once per prime, so it has to stay short
+export const LARGE_SIEVE_MAX_IS_PRIME_ARGUMENT = 1e8;
+
+// Final results of a large-range run
+export interface LargeSieveResult {
+  limit: number;
+  primes: Uint32Array;
+  stats: PrimeStats;
+  familyCounts: Partial<Record<PrimeFamily, number>>;
+}
+
+export type LargeSievePhase = "sieving" | "analysing";
+
+// Messages exchanged with the sieve worker
+export interface LargeSieveRequest {
+  limit: number;
+  // The worker has its own registry, so user-defined families are sent along
+  customFamilies?: CustomFamilySource[];
+}
+
+export type LargeSieveMessage =
+  | { type: "progress"; phase: LargeSievePhase; fraction: number }
+  | { type: "result"; result: LargeSieveResult };
+
+// Sieve and analyse 1..limit without building per-number objects
+export function runLargeSieve(
+  limit: number,
+  onProgress?: (phase: LargeSievePhase, fraction: number) => void
+): LargeSieveResult {
+  const bits = sieveBitset(limit, (fraction) =>
+    onProgress?.("sieving", fraction)
+  );
+
+  onProgress?.("analysing", 0);
+  const primes = primesFromBitset(bits, limit);
+  const familyCounts = countFamilyMembers(
+    primes,
+    (n) => isPrimeInBitset(bits, limit, n),
+    listPrimeFamilies(),
+    (fraction) => onProgress?.("analysing", fraction)
+  );
+
+  return {
+    limit,
+    primes,
+    stats: summarizePrimes(primes, limit),
+    familyCounts,
+  };
+}
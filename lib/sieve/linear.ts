@@ -0,0 +1,38 @@
+import { COMPOSITE, PRIME, UNMARKED, finishSieve } from "./engine";
+import { createOperationCounts, type OperationCounts } from "./operations";
+import type { SieveEvent } from "./types";
+
+// Run Euler's linear sieve over 1..limit. Every composite is crossed out
+// exactly once, as its smallest prime factor times a cofactor.
+export function* linearSieve(
+  limit: number,
+  ops: OperationCounts = createOperationCounts()
+): Generator<SieveEvent, void, undefined> {
+  const marks = new Uint8Array(limit + 1);
+  const primes: number[] = [];
+
+  for (let i = 2; i <= limit; i++) {
+    ops.arrayReads++;
+    if (marks[i] === UNMARKED) {
+      marks[i] = PRIME;
+      ops.primeSelections++;
+      primes.push(i);
+      yield { type: "select-prime", prime: i };
+    }
+
+    for (const p of primes) {
+      if (p * i > limit) break;
+      marks[p * i] = COMPOSITE;
+      ops.crossOffs++;
+      yield { type: "mark-composite", value: p * i, prime: p, factor: i };
+
+      // Larger primes would not be the smallest factor of their product
+      if (i % p === 0) {
+        yield { type: "linear-stop", value: i, prime: p };
+        break;
+      }
+    }
+  }
+
+  yield* finishSieve(marks, limit, "prime", ops);
+}
@@ -0,0 +1,39 @@
+import type { SieveEvent } from "./types";
+
+// Work done by a sieve run
+export interface OperationCounts {
+  // Attempts to cross a number out, including redundant ones
+  crossOffs: number;
+  // Cross-offs that hit a number already crossed out (or undid a toggle)
+  redundantMarks: number;
+  // Numbers declared prime
+  primeSelections: number;
+  // Reads of the marks array
+  arrayReads: number;
+}
+
+// A sieve algorithm: events for 1..limit, counting its work into ops
+export type SieveRun = (
+  limit: number,
+  ops?: OperationCounts
+) => Generator<SieveEvent, void, undefined>;
+
+export const createOperationCounts = (): OperationCounts => ({
+  crossOffs: 0,
+  redundantMarks: 0,
+  primeSelections: 0,
+  arrayReads: 0,
+});
+
+// Run an algorithm to the end without keeping its events
+export function countOperations(run: SieveRun, limit: number): OperationCounts {
+  const ops = createOperationCounts();
+  for (const _ of run(limit, ops)) {
+    // Only the counts are wanted
+  }
+  return ops;
+}
+
+// n·ln ln n, the asymptotic cost of the Sieve of Eratosthenes
+export const theoreticalSieveWork = (n: number): number =>
+  n > Math.E ? n * Math.log(Math.log(n)) : 0;
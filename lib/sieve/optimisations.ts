@@ -0,0 +1,69 @@
+import {
+  sieveOfEratosthenes,
+  TEXTBOOK_ERATOSTHENES,
+  type EratosthenesOptions,
+} from "./engine";
+import { countOperations, type OperationCounts } from "./operations";
+
+export type Optimisation = keyof EratosthenesOptions;
+
+export const OPTIMISATION_LABELS: Record<Optimisation, string> = {
+  startAtSquare: "Start at p²",
+  stopAtRoot: "Stop at √n",
+  wheel: "Wheel",
+};
+
+// Work one optimisation saves on top of the others that are switched on
+export interface OptimisationSaving {
+  optimisation: Optimisation;
+  crossOffs: number;
+  arrayReads: number;
+}
+
+export interface OptimisationReport {
+  textbook: OperationCounts;
+  optimised: OperationCounts;
+  savings: OptimisationSaving[];
+}
+
+const withoutOptimisation = (
+  options: EratosthenesOptions,
+  optimisation: Optimisation
+): EratosthenesOptions => ({
+  ...options,
+  [optimisation]: TEXTBOOK_ERATOSTHENES[optimisation],
+});
+
+const isEnabled = (options: EratosthenesOptions, optimisation: Optimisation) =>
+  options[optimisation] !== TEXTBOOK_ERATOSTHENES[optimisation];
+
+const countWith = (limit: number, options: EratosthenesOptions) =>
+  countOperations((n, ops) => sieveOfEratosthenes(n, ops, options), limit);
+
+// Compare an optimised Eratosthenes run with the textbook version, and
+// attribute the savings to each switched-on optimisation
+export function compareOptimisations(
+  limit: number,
+  options: EratosthenesOptions
+): OptimisationReport {
+  const optimised = countWith(limit, options);
+  const savings = (Object.keys(OPTIMISATION_LABELS) as Optimisation[])
+    .filter((optimisation) => isEnabled(options, optimisation))
+    .map((optimisation) => {
+      const without = countWith(
+        limit,
+        withoutOptimisation(options, optimisation)
+      );
+      return {
+        optimisation,
+        crossOffs: without.crossOffs - optimised.crossOffs,
+        arrayReads: without.arrayReads - optimised.arrayReads,
+      };
+    });
+
+  return {
+    textbook: countWith(limit, TEXTBOOK_ERATOSTHENES),
+    optimised,
+    savings,
+  };
+}
@@ -0,0 +1,62 @@
+// Smooth approximations to π(x), the number of primes up to x
+
+const EULER_GAMMA = 0.5772156649015329;
+const SERIES_TOLERANCE = 1e-12;
+const MAX_SERIES_TERMS = 200;
+
+// x/ln x, the first estimate from the prime number theorem
+export const xOverLogX = (x: number): number => (x > 1 ? x / Math.log(x) : 0);
+
+// The logarithmic integral li(x) = ∫₀ˣ dt/ln t, by Ramanujan's series
+// γ + ln ln x + √x Σ (−1)ⁿ⁻¹ (ln x)ⁿ / (n! 2ⁿ⁻¹) Σ_{k ≤ (n−1)/2} 1/(2k+1).
+// Only defined here for x > 1.
+export function logarithmicIntegral(x: number): number {
+  if (x <= 1) return Number.NaN;
+  const log = Math.log(x);
+  let sum = 0;
+  let term = 1; // (−1)ⁿ⁻¹ (ln x)ⁿ / (n! 2ⁿ⁻¹), built up as n grows
+  let inner = 0;
+  for (let n = 1; n <= MAX_SERIES_TERMS; n++) {
+    term *= (n === 1 ? 1 : -0.5) * (log / n);
+    if (n % 2 === 1) inner += 1 / n;
+    const contribution = term * inner;
+    sum += contribution;
+    if (Math.abs(contribution) < SERIES_TOLERANCE * Math.abs(sum)) break;
+  }
+  return EULER_GAMMA + Math.log(log) + Math.sqrt(x) * sum;
+}
+
+// ζ(s) for real s > 1: ten terms of the series, then Euler–Maclaurin for
+// the tail
+export function zeta(s: number): number {
+  const N = 10;
+  let sum = 0;
+  for (let n = 1; n < N; n++) sum += n ** -s;
+  return (
+    sum +
+    N ** (1 - s) / (s - 1) +
+    N ** -s / 2 +
+    (s * N ** (-s - 1)) / 12 -
+    (s * (s + 1) * (s + 2) * N ** (-s - 3)) / 720
+  );
+}
+
+// ζ(2), ζ(3), … for Gram's series, filled in as they are needed
+const zetaAtIntegers: number[] = [];
+const zetaAt = (k: number) => (zetaAtIntegers[k] ??= zeta(k));
+
+// Riemann's R(x) = Σ μ(n)/n · li(x^(1/n)), evaluated with Gram's series
+// 1 + Σ (ln x)ᵏ / (k · k! · ζ(k+1)), which converges for every x > 0
+export function riemannR(x: number): number {
+  if (x <= 0) return Number.NaN;
+  const log = Math.log(x);
+  let sum = 1;
+  let power = 1; // (ln x)ᵏ / k!
+  for (let k = 1; k <= MAX_SERIES_TERMS; k++) {
+    power *= log / k;
+    const term = power / (k * zetaAt(k + 1));
+    sum += term;
+    if (Math.abs(term) < SERIES_TOLERANCE * Math.abs(sum)) break;
+  }
+  return sum;
+}
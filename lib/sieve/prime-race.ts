@@ -0,0 +1,99 @@
+import { coprimeResidues } from "./residues";
+
+// Moduli offered for prime races; any modulus in range works. Below 3 there
+// is only one class to race.
+export const RACE_PRESETS = [3, 4, 5, 8, 10, 12];
+export const MIN_RACE_MODULUS = 3;
+export const MAX_RACE_MODULUS = 30;
+
+export const clampRaceModulus = (modulus: number) =>
+  Math.min(MAX_RACE_MODULUS, Math.max(MIN_RACE_MODULUS, Math.round(modulus)));
+
+// Running count of primes in each class (in the order of PrimeRace.classes)
+// among the primes up to x
+export interface RacePoint {
+  x: number;
+  counts: number[];
+}
+
+// The class with residue leader took the lead on its own at x
+export interface LeadChange {
+  at: number;
+  leader: number;
+}
+
+export interface PrimeRace {
+  modulus: number;
+  // Reduced residues mod the modulus, the classes in the race
+  classes: number[];
+  points: RacePoint[];
+  leadChanges: LeadChange[];
+  // Share of 2..limit over which each class led on its own; the remainder
+  // were ties
+  leadShare: number[];
+}
+
+// Race the residue classes mod m against each other over the primes up to
+// limit, Chebyshev-style. Points are taken at primes, at most maxPoints of
+// them; lead changes and shares are exact.
+export function primeRace(
+  primes: ArrayLike<number>,
+  limit: number,
+  modulus: number,
+  maxPoints = 2000
+): PrimeRace {
+  const classes = coprimeResidues(modulus);
+  const classOf = new Map(classes.map((residue, i) => [residue, i]));
+  const counts = new Array<number>(classes.length).fill(0);
+  const leadLength = new Array<number>(classes.length).fill(0);
+  const points: RacePoint[] = [];
+  const leadChanges: LeadChange[] = [];
+  const stride = Math.max(1, Math.ceil(primes.length / maxPoints));
+
+  // Index of the class alone in the lead, or -1 on a tie
+  const soleLeader = () => {
+    let best = -1;
+    let tied = false;
+    counts.forEach((count, i) => {
+      if (best === -1 || count > counts[best]) {
+        best = i;
+        tied = false;
+      } else if (count === counts[best]) {
+        tied = true;
+      }
+    });
+    return tied ? -1 : best;
+  };
+
+  let lastLeader = -1;
+  for (let i = 0; i < primes.length; i++) {
+    const p = primes[i];
+    const index = classOf.get(p % modulus);
+    if (index !== undefined) counts[index]++;
+
+    const leader = soleLeader();
+    if (leader !== -1 && leader !== lastLeader) {
+      leadChanges.push({ at: p, leader: classes[leader] });
+      lastLeader = leader;
+    }
+    // The standings hold until the next prime
+    const next = i + 1 < primes.length ? primes[i + 1] : limit + 1;
+    if (leader !== -1) leadLength[leader] += next - p;
+
+    if (i % stride === stride - 1 || i === primes.length - 1) {
+      points.push({ x: p, counts: [...counts] });
+    }
+  }
+  if (points.length === 0 || points[points.length - 1].x < limit) {
+    points.push({ x: limit, counts: [...counts] });
+  }
+
+  const span = Math.max(1, limit - 1);
+  return {
+    modulus,
+    classes,
+    points,
+    leadChanges,
+    leadShare: leadLength.map((length) => length / span),
+  };
+}
@@ -0,0 +1,38 @@
+import { gcd } from "./factors";
+import type { PrimeNumber } from "./types";
+
+// Column counts offered as presets: primorials, whose coprime columns are
+// the only ones that can hold more than one prime
+export const RESIDUE_PRESETS = [6, 30, 210];
+
+export const MIN_MODULUS = 2;
+export const MAX_MODULUS = 360;
+
+// Whether residue r mod m can hold infinitely many primes (gcd(r, m) = 1)
+export const isCoprimeResidue = (residue: number, modulus: number) =>
+  gcd(residue, modulus) === 1;
+
+// Residues coprime to the modulus, in increasing order. There are φ(m).
+export function coprimeResidues(modulus: number): number[] {
+  const residues: number[] = [];
+  for (let r = 0; r < modulus; r++) {
+    if (isCoprimeResidue(r, modulus)) residues.push(r);
+  }
+  return residues;
+}
+
+// Primes found so far in each residue class, indexed by residue
+export function residueTally(
+  numbers: PrimeNumber[],
+  modulus: number
+): number[] {
+  const tally = new Array<number>(modulus).fill(0);
+  for (const number of numbers) {
+    if (number.state === "prime") tally[number.value % modulus]++;
+  }
+  return tally;
+}
+
+// Clamp a user-entered modulus into the supported range
+export const clampModulus = (modulus: number) =>
+  Math.min(MAX_MODULUS, Math.max(MIN_MODULUS, Math.round(modulus)));
@@ -0,0 +1,75 @@
+import { COMPOSITE, PRIME, UNMARKED, finishSieve } from "./engine";
+import { createOperationCounts, type OperationCounts } from "./operations";
+import type { SieveEvent } from "./types";
+
+// Run the segmented Sieve of Eratosthenes: find the base primes up to √limit
+// with the classic sieve, then sieve (√limit, limit] one window at a time
+export function* sieveSegmented(
+  limit: number,
+  segmentSize: number,
+  ops: OperationCounts = createOperationCounts()
+): Generator<SieveEvent, void, undefined> {
+  const marks = new Uint8Array(limit + 1);
+  const root = Math.floor(Math.sqrt(limit));
+  const basePrimes: number[] = [];
+
+  for (let p = 2; p <= root; p++) {
+    ops.arrayReads++;
+    if (marks[p] !== UNMARKED) continue;
+
+    marks[p] = PRIME;
+    ops.primeSelections++;
+    basePrimes.push(p);
+    yield { type: "select-prime", prime: p };
+
+    for (let m = p * 2; m <= root; m += p) {
+      ops.arrayReads++;
+      ops.crossOffs++;
+      if (marks[m] === COMPOSITE) {
+        ops.redundantMarks++;
+        yield { type: "skip", value: m, prime: p };
+        continue;
+      }
+      marks[m] = COMPOSITE;
+      yield { type: "mark-composite", value: m, prime: p };
+    }
+  }
+
+  const size = Math.max(1, Math.floor(segmentSize));
+  for (let low = root + 1; low <= limit; low += size) {
+    const high = Math.min(low + size - 1, limit);
+    yield { type: "select-segment", low, high };
+
+    for (const p of basePrimes) {
+      const firstMultiple = Math.ceil(low / p) * p;
+      const start = Math.max(p * p, firstMultiple);
+      if (start > high) continue;
+      yield { type: "segment-offset", prime: p, low, firstMultiple, start };
+
+      for (let m = start; m <= high; m += p) {
+        ops.arrayReads++;
+        ops.crossOffs++;
+        if (marks[m] === COMPOSITE) {
+          ops.redundantMarks++;
+          yield { type: "skip", value: m, prime: p };
+          continue;
+        }
+        marks[m] = COMPOSITE;
+        yield { type: "mark-composite", value: m, prime: p };
+      }
+    }
+
+    const primes: number[] = [];
+    for (let n = low; n <= high; n++) {
+      ops.arrayReads++;
+      if (marks[n] === UNMARKED) {
+        marks[n] = PRIME;
+        ops.primeSelections++;
+        primes.push(n);
+      }
+    }
+    yield { type: "sweep-segment", low, high, primes };
+  }
+
+  yield* finishSieve(marks, limit, "prime", ops);
+}
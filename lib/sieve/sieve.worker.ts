@@ -0,0 +1,27 @@
+import { compileCustomFamily } from "./custom-families";
+import { registerPrimeFamily } from "./families";
+import {
+  LARGE_SIEVE_MAX_IS_PRIME_ARGUMENT,
+  runLargeSieve,
+  type LargeSieveMessage,
+  type LargeSieveRequest,
+} from "./large";
+
+const post = (message: LargeSieveMessage, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<LargeSieveRequest>) => {
+  const { limit, customFamilies = [] } = event.data;
+  for (const source of customFamilies) {
+    const family = compileCustomFamily(
+      source,
+      LARGE_SIEVE_MAX_IS_PRIME_ARGUMENT
+    );
+    if (family) registerPrimeFamily(family);
+  }
+
+  const result = runLargeSieve(limit, (phase, fraction) =>
+    post({ type: "progress", phase, fraction })
+  );
+  post({ type: "result", result }, [result.primes.buffer]);
+};
@@ -0,0 +1,216 @@
+// Position of a number on the Ulam spiral. The centre value (1 unless given)
+// sits at the origin and the spiral winds anticlockwise: with 1 in the centre,
+// 2 is to its right, 3 above 2, 4 above 1, ... Numbers below the centre are
+// not on the spiral. y grows upwards, so flip it when drawing on screen.
+export interface SpiralPoint {
+  x: number;
+  y: number;
+}
+
+export function ulamPosition(value: number, centre = 1): SpiralPoint {
+  const n = value - centre + 1;
+  if (n <= 1) return { x: 0, y: 0 };
+
+  // n lies on ring k, whose last number is (2k+1)²
+  const k = Math.ceil((Math.sqrt(n) - 1) / 2);
+  const side = 2 * k;
+  let corner = (2 * k + 1) ** 2;
+
+  // Walk back from the ring's last corner one side at a time
+  if (n >= corner - side) return { x: k - (corner - n), y: -k };
+  corner -= side;
+  if (n >= corner - side) return { x: -k, y: -k + (corner - n) };
+  corner -= side;
+  if (n >= corner - side) return { x: -k + (corner - n), y: k };
+  return { x: k, y: k - (corner - n - side) };
+}
+
+// Inverse of ulamPosition, or 0 for a point outside the numbers from the
+// centre to limit
+export function ulamValueAt(
+  x: number,
+  y: number,
+  limit: number,
+  centre = 1
+): number {
+  const k = Math.max(Math.abs(x), Math.abs(y));
+  const last = (2 * k + 1) ** 2;
+  const side = 2 * k;
+
+  let n: number;
+  if (y === -k) n = last - (k - x);
+  else if (x === -k) n = last - side - (y + k);
+  else if (y === k) n = last - 2 * side - (x + k);
+  else n = last - 3 * side - (k - y);
+
+  const value = n + centre - 1;
+  return value >= centre && value <= limit ? value : 0;
+}
+
+// Number of rings needed to hold the numbers from the centre to limit
+export const ulamRadius = (limit: number, centre = 1): number =>
+  Math.ceil((Math.sqrt(Math.max(1, limit - centre + 1)) - 1) / 2);
+
+// A diagonal of the spiral, either x + y = offset or x − y = offset
+export type DiagonalDirection = "sum" | "difference";
+
+export interface SpiralDiagonal {
+  direction: DiagonalDirection;
+  offset: number;
+  primes: number;
+  cells: number;
+  density: number;
+}
+
+const diagonalKey = (direction: DiagonalDirection, offset: number) =>
+  2 * offset + (direction === "sum" ? 0 : 1);
+
+// Prime density along every diagonal with at least minCells numbers from 2
+// (or the centre) upwards, densest first. Counts use whatever is prime on the
+// board so far.
+export function denseDiagonals(
+  isPrime: (n: number) => boolean,
+  limit: number,
+  count = 6,
+  minCells = 8,
+  centre = 1
+): SpiralDiagonal[] {
+  const diagonals = new Map<number, SpiralDiagonal>();
+  const tally = (
+    direction: DiagonalDirection,
+    offset: number,
+    prime: boolean
+  ) => {
+    const key = diagonalKey(direction, offset);
+    let diagonal = diagonals.get(key);
+    if (!diagonal) {
+      diagonal = { direction, offset, primes: 0, cells: 0, density: 0 };
+      diagonals.set(key, diagonal);
+    }
+    diagonal.cells++;
+    if (prime) diagonal.primes++;
+  };
+
+  for (let n = Math.max(2, centre); n <= limit; n++) {
+    const { x, y } = ulamPosition(n, centre);
+    const prime = isPrime(n);
+    tally("sum", x + y, prime);
+    tally("difference", x - y, prime);
+  }
+
+  return Array.from(diagonals.values())
+    .filter((diagonal) => diagonal.cells >= minCells)
+    .map((diagonal) => ({
+      ...diagonal,
+      density: diagonal.primes / diagonal.cells,
+    }))
+    .sort((a, b) => b.density - a.density || b.primes - a.primes)
+    .slice(0, count);
+}
+
+// Whether a spiral point lies on the given diagonal
+export const onDiagonal = (
+  { x, y }: SpiralPoint,
+  diagonal: Pick<SpiralDiagonal, "direction" | "offset">
+): boolean =>
+  diagonal.direction === "sum"
+    ? x + y === diagonal.offset
+    : x - y === diagonal.offset;
+
+// Quadratic an² + bn + c, as used for prime-generating polynomials
+export interface Quadratic {
+  a: number;
+  b: number;
+  c: number;
+}
+
+export const EULER_LIKE_QUADRATIC: Quadratic = { a: 4, b: -2, c: 41 };
+
+export const evaluateQuadratic = ({ a, b, c }: Quadratic, n: number) =>
+  a * n * n + b * n + c;
+
+// "4n² − 2n + 41"
+export function formatQuadratic({ a, b, c }: Quadratic): string {
+  const terms: string[] = [];
+  const push = (coefficient: number, variable: string) => {
+    if (coefficient === 0) return;
+    const size = Math.abs(coefficient);
+    const body = size === 1 && variable ? variable : `${size}${variable}`;
+    if (terms.length === 0) terms.push(coefficient < 0 ? `−${body}` : body);
+    else terms.push(coefficient < 0 ? `− ${body}` : `+ ${body}`);
+  };
+  push(a, "n²");
+  push(b, "n");
+  push(c, "");
+  return terms.length > 0 ? terms.join(" ") : "0";
+}
+
+// Values of the quadratic at n = 0, 1, 2, ... that fall inside [1, limit],
+// in order of n. Stops once the values head away from the range for good.
+export function quadraticValues(quadratic: Quadratic, limit: number): number[] {
+  const { a, b } = quadratic;
+  const values: number[] = [];
+
+  for (let n = 0; n <= limit; n++) {
+    const value = evaluateQuadratic(quadratic, n);
+    if (value >= 1 && value <= limit) {
+      values.push(value);
+      continue;
+    }
+    const slope = 2 * a * n + b;
+    if (value > limit && a >= 0 && slope >= 0) break;
+    if (value < 1 && a <= 0 && slope <= 0) break;
+  }
+  return values;
+}
+
+// The diagonal holding most of the given values, if any holds at least half.
+// Values below the centre are not on the spiral and are left out.
+export function tracedDiagonal(
+  values: number[],
+  centre = 1
+): Pick<SpiralDiagonal, "direction" | "offset" | "cells"> | null {
+  const counts = new Map<number, number>();
+  let best: Pick<SpiralDiagonal, "direction" | "offset" | "cells"> | null =
+    null;
+
+  const onSpiral = values.filter((value) => value >= centre);
+  for (const value of onSpiral) {
+    const { x, y } = ulamPosition(value, centre);
+    for (const [direction, offset] of [
+      ["sum", x + y],
+      ["difference", x - y],
+    ] as [DiagonalDirection, number][]) {
+      const key = diagonalKey(direction, offset);
+      const cells = (counts.get(key) ?? 0) + 1;
+      counts.set(key, cells);
+      if (!best || cells > best.cells) best = { direction, offset, cells };
+    }
+  }
+  return best && best.cells * 2 >= onSpiral.length && best.cells > 1
+    ? best
+    : null;
+}
+
+// "x + y = 4" / "x − y = −2"
+export const formatDiagonal = ({
+  direction,
+  offset,
+}: Pick<SpiralDiagonal, "direction" | "offset">): string =>
+  `x ${direction === "sum" ? "+" : "−"} y = ${
+    offset < 0 ? `−${-offset}` : offset
+  }`;
+
+// Sacks spiral: n at radius √n and angle 2π√n, so perfect squares line up
+// on the positive x axis
+export function sacksPosition(n: number): SpiralPoint {
+  const r = Math.sqrt(n);
+  return { x: r * Math.cos(2 * Math.PI * r), y: r * Math.sin(2 * Math.PI * r) };
+}
+
+// Polar plot r = n, θ = n radians. Primes fall into arms because 44 and
+// 710 radians are close to whole turns (7 and 113 of them).
+export const polarPosition = (n: number): SpiralPoint => ({
+  x: n * Math.cos(n),
+  y: n * Math.sin(n),
+});
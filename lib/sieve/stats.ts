@@ -0,0 +1,90 @@
+import { logarithmicIntegral, riemannR, xOverLogX } from "./prime-counting";
+
+// Point on the "Prime Number Theorem Comparison" chart: π(n) and its
+// approximations n/ln n, li(n) and Riemann's R(n)
+export interface ChartPoint {
+  n: number;
+  actual: number;
+  estimated: number;
+  li: number;
+  riemann: number;
+}
+
+// Boards with fewer primes than this are charted at every step of π(n)
+const MAX_CHART_POINTS = 12_000;
+
+// Summary shown in the "Prime Distribution" tab
+export interface PrimeStats {
+  primeCount: number;
+  estimatedCount: number;
+  density: number;
+  avgGap: number;
+  maxGap: number;
+  chartData: ChartPoint[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// n/ln(n), rounded to two decimals for display
+export const estimatePrimeCount = (n: number): number => round2(xOverLogX(n));
+
+// Where π(n) is sampled: just before and at every prime, so each step shows,
+// or when that is too many points, evenly on both a linear and a log scale
+function chartSamples(primes: ArrayLike<number>, limit: number): number[] {
+  if (limit < 2) return [];
+  const samples = [2, limit];
+  if (2 * primes.length < MAX_CHART_POINTS) {
+    for (let i = 0; i < primes.length; i++) {
+      samples.push(primes[i] - 1, primes[i]);
+    }
+  } else {
+    const half = MAX_CHART_POINTS / 2;
+    for (let i = 1; i < half; i++) {
+      samples.push(Math.round(2 + ((limit - 2) * i) / half));
+      samples.push(Math.round(2 * (limit / 2) ** (i / half)));
+    }
+  }
+  return Array.from(new Set(samples))
+    .filter((n) => n >= 2 && n <= limit)
+    .sort((a, b) => a - b);
+}
+
+// Stats for a finished run, given every prime up to limit in order
+export function summarizePrimes(
+  primes: ArrayLike<number>,
+  limit: number
+): PrimeStats {
+  const primeCount = primes.length;
+
+  let maxGap = 0;
+  for (let i = 1; i < primeCount; i++) {
+    maxGap = Math.max(maxGap, primes[i] - primes[i - 1]);
+  }
+  // Consecutive gaps telescope to last - first
+  const avgGap =
+    primeCount > 1
+      ? (primes[primeCount - 1] - primes[0]) / (primeCount - 1)
+      : 0;
+
+  const chartData: ChartPoint[] = [];
+  let counted = 0;
+  for (const n of chartSamples(primes, limit)) {
+    while (counted < primeCount && primes[counted] <= n) counted++;
+    chartData.push({
+      n,
+      actual: counted,
+      estimated: estimatePrimeCount(n),
+      li: round2(logarithmicIntegral(n)),
+      riemann: round2(riemannR(n)),
+    });
+  }
+
+  return {
+    primeCount,
+    estimatedCount: limit > 1 ? Math.round(limit / Math.log(limit)) : 0,
+    density: primeCount / limit,
+    avgGap,
+    maxGap,
+    chartData,
+  };
+}
@@ -0,0 +1,41 @@
+import { COMPOSITE, UNMARKED, finishSieve } from "./engine";
+import { createOperationCounts, type OperationCounts } from "./operations";
+import type { SieveEvent } from "./types";
+
+// Run the Sieve of Sundaram over 1..limit. It works on indices k, removing
+// every k = i + j + 2ij; each surviving k gives the odd prime 2k + 1.
+export function* sieveOfSundaram(
+  limit: number,
+  ops: OperationCounts = createOperationCounts()
+): Generator<SieveEvent, void, undefined> {
+  const marks = new Uint8Array(limit + 1);
+
+  const evens: number[] = [];
+  for (let n = 4; n <= limit; n += 2) {
+    marks[n] = COMPOSITE;
+    evens.push(n);
+  }
+  if (evens.length > 0) {
+    yield {
+      type: "exclude",
+      values: evens,
+      reason: "Sundaram only produces odd numbers 2k+1: even numbers are out",
+    };
+  }
+
+  // Largest index whose odd number 2k + 1 is on the board
+  const m = Math.floor((limit - 1) / 2);
+  for (let i = 1; i + i + 2 * i * i <= m; i++) {
+    for (let j = i; i + j + 2 * i * j <= m; j++) {
+      const value = 2 * (i + j + 2 * i * j) + 1;
+      ops.arrayReads++;
+      ops.crossOffs++;
+      const redundant = marks[value] !== UNMARKED;
+      if (redundant) ops.redundantMarks++;
+      marks[value] = COMPOSITE;
+      yield { type: "sundaram-remove", i, j, value, redundant };
+    }
+  }
+
+  yield* finishSieve(marks, limit, "prime", ops);
+}
@@ -0,0 +1,35 @@
+import { COMPOSITE, PRIME, finishSieve } from "./engine";
+import { createOperationCounts, type OperationCounts } from "./operations";
+import type { SieveEvent } from "./types";
+
+// Test every number on its own, dividing by 2, 3, 4, ... up to its square
+// root. Not a sieve at all, which is the point of the comparison.
+export function* trialDivision(
+  limit: number,
+  ops: OperationCounts = createOperationCounts()
+): Generator<SieveEvent, void, undefined> {
+  const marks = new Uint8Array(limit + 1);
+
+  for (let n = 2; n <= limit; n++) {
+    let isPrime = true;
+    for (let d = 2; d * d <= n; d++) {
+      // There is no array: each divisibility test counts as a read
+      ops.arrayReads++;
+      const divides = n % d === 0;
+      yield { type: "trial-divide", value: n, divisor: d, divides };
+      if (divides) {
+        marks[n] = COMPOSITE;
+        ops.crossOffs++;
+        isPrime = false;
+        break;
+      }
+    }
+    if (isPrime) {
+      marks[n] = PRIME;
+      ops.primeSelections++;
+      yield { type: "select-prime", prime: n };
+    }
+  }
+
+  yield* finishSieve(marks, limit, "prime", ops);
+}
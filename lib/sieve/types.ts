@@ -0,0 +1,93 @@
+// Id of a family in the prime-family registry. "all" stands for every prime
+// when filtering.
+export type PrimeFamily = string;
+
+// State of a single cell on the sieve board
+export type CellState = "unmarked" | "prime" | "composite";
+
+// Prime number with additional properties
+export interface PrimeNumber {
+  value: number;
+  state: CellState;
+  families: PrimeFamily[];
+  gap?: number; // Gap from previous prime
+  offWheel?: boolean; // Skipped by a wheel, never crossed out
+}
+
+// Quadratic forms used by the Sieve of Atkin
+export type AtkinForm = "4x²+y²" | "3x²+y²" | "3x²−y²";
+
+// Events emitted by a sieve run, in the order they happen
+export type SieveEvent =
+  // The smallest unmarked number is confirmed prime
+  | { type: "select-prime"; prime: number }
+  // A multiple of the current prime is crossed out for the first time. The
+  // linear sieve also reports the cofactor, value = prime × factor.
+  | { type: "mark-composite"; value: number; prime: number; factor?: number }
+  // A multiple of the current prime that is already crossed out
+  | { type: "skip"; value: number; prime: number }
+  // Segmented sieve: a new window [low, high] becomes active
+  | { type: "select-segment"; low: number; high: number }
+  // Segmented sieve: where a base prime starts crossing out in the window
+  | {
+      type: "segment-offset";
+      prime: number;
+      low: number;
+      firstMultiple: number;
+      start: number;
+    }
+  // Segmented sieve: numbers left unmarked in the window are prime
+  | { type: "sweep-segment"; low: number; high: number; primes: number[] }
+  // Wheel factorisation: the basis primes are known, and every number with
+  // a factor in the basis is skipped
+  | { type: "wheel"; basis: number[]; values: number[] }
+  // Several numbers are ruled out at once before the run starts
+  | { type: "exclude"; values: number[]; reason: string }
+  // Sundaram: index i + j + 2ij is removed, crossing out (2i+1)(2j+1)
+  | {
+      type: "sundaram-remove";
+      i: number;
+      j: number;
+      value: number;
+      redundant: boolean;
+    }
+  // Linear sieve: prime divides the current factor, so this factor stops
+  | { type: "linear-stop"; value: number; prime: number }
+  // Atkin: a quadratic form hits value, flipping its candidate status
+  | {
+      type: "atkin-toggle";
+      value: number;
+      form: AtkinForm;
+      x: number;
+      y: number;
+      on: boolean;
+    }
+  // Trial division: value is tested against one divisor
+  | { type: "trial-divide"; value: number; divisor: number; divides: boolean }
+  // The run is over; numbers still unmarked are swept in as primes, or
+  // rejected as composite by algorithms that only keep confirmed candidates
+  | { type: "complete"; swept: number[]; rejected: number[] }
+  // Special families and gaps for the final set of primes
+  | {
+      type: "families-identified";
+      families: Record<number, PrimeFamily[]>;
+      gaps: Record<number, number>;
+    };
+
+// Window being sieved by the segmented sieve
+export interface SegmentWindow {
+  low: number;
+  high: number;
+  // First multiple of the current base prime inside the window (⌈low/p⌉·p)
+  // and where crossing out actually starts (never below p²)
+  offset: { prime: number; firstMultiple: number; start: number } | null;
+}
+
+// Board state produced by replaying sieve events
+export interface SieveState {
+  numbers: PrimeNumber[];
+  currentPrime: number;
+  currentMultiple: number;
+  isComplete: boolean;
+  segment: SegmentWindow | null;
+}
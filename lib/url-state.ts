@@ -0,0 +1,204 @@
+import {
+  EMPTY_FAMILY_FILTER,
+  SIEVE_ALGORITHMS,
+  TEXTBOOK_ERATOSTHENES,
+  type EratosthenesOptions,
+  type FamilyFilter,
+  type PrimeFamily,
+  type SieveAlgorithm,
+  type Wheel,
+} from "@/lib/sieve";
+
+// Board sizes offered by the step-by-step mode
+export const MIN_STEP_LIMIT = 10;
+export const MAX_STEP_LIMIT = 50_000;
+export const MIN_SPEED = 1;
+export const MAX_SPEED = 300;
+export const MIN_SEGMENT_SIZE = 5;
+export const MAX_SEGMENT_SIZE = 500;
+export const WHEELS: Wheel[] = ["none", "odd", "2-3-5"];
+
+// Largest board the step-by-step mode offers for an algorithm. The whole run
+// is recorded up front, so slow algorithms get a smaller board.
+export const maxStepLimit = (algorithm: SieveAlgorithm): number =>
+  Math.min(MAX_STEP_LIMIT, SIEVE_ALGORITHMS[algorithm].stepLimit ?? Infinity);
+
+export const VISUALIZER_TABS = [
+  "grid",
+  "spiral",
+  "stats",
+  "functions",
+] as const;
+export type VisualizerTab = (typeof VISUALIZER_TABS)[number];
+
+// Everything that decides the recorded run, so a shared or saved step lands
+// on the same board
+export interface RunSettings {
+  maxNumber: number;
+  mode: "steps" | "segmented";
+  algorithm: SieveAlgorithm;
+  segmentSize: number;
+  optimisations: EratosthenesOptions;
+}
+
+export const sameRunSettings = (a: RunSettings, b: RunSettings): boolean =>
+  a.maxNumber === b.maxNumber &&
+  a.mode === b.mode &&
+  a.algorithm === b.algorithm &&
+  a.segmentSize === b.segmentSize &&
+  a.optimisations.startAtSquare === b.optimisations.startAtSquare &&
+  a.optimisations.stopAtRoot === b.optimisations.stopAtRoot &&
+  a.optimisations.wheel === b.optimisations.wheel;
+
+// The part of the visualizer a link reproduces: the run, how fast it plays,
+// the highlighted families, how far the run has got and the tab in view
+export interface SharedState extends RunSettings {
+  speed: number;
+  familyFilter: FamilyFilter;
+  step: number;
+  tab: VisualizerTab;
+}
+
+export const DEFAULT_SHARED_STATE: SharedState = {
+  maxNumber: 100,
+  mode: "steps",
+  algorithm: "eratosthenes",
+  segmentSize: 20,
+  optimisations: TEXTBOOK_ERATOSTHENES,
+  speed: 100,
+  familyFilter: EMPTY_FAMILY_FILTER,
+  step: 0,
+  tab: "grid",
+};
+
+// Whole numbers in [min, max] only; anything else is treated as missing
+function parseInteger(
+  value: string | null,
+  min: number,
+  max: number
+): number | undefined {
+  if (value === null || !/^\d+$/.test(value)) return undefined;
+  const parsed = Number(value);
+  return parsed >= min && parsed <= max ? parsed : undefined;
+}
+
+// Comma-separated family ids, keeping the registered ones once each
+const parseFamilies = (
+  value: string | null,
+  known: (family: PrimeFamily) => boolean
+): PrimeFamily[] =>
+  Array.from(new Set(value?.split(",") ?? [])).filter(
+    (family) => family !== "" && known(family)
+  );
+
+const isTab = (value: string | null): value is VisualizerTab =>
+  VISUALIZER_TABS.some((tab) => tab === value);
+
+const parseAlgorithm = (value: string | null): SieveAlgorithm | undefined =>
+  Object.values(SIEVE_ALGORITHMS).find((info) => info.id === value)?.id;
+
+// On/off optimisations, written to ?opt= as a comma-separated list
+const OPTIMISATION_FLAGS = ["startAtSquare", "stopAtRoot"] as const;
+
+// Query parameters a shared state is read from. Anything else in the query
+// string, such as tracking parameters, is not a shared link.
+const SHARED_STATE_PARAMS = [
+  "max",
+  "mode",
+  "algorithm",
+  "segment",
+  "opt",
+  "wheel",
+  "speed",
+  "family",
+  "exclude",
+  "combine",
+  "step",
+  "tab",
+];
+
+export const hasSharedState = (params: URLSearchParams): boolean =>
+  SHARED_STATE_PARAMS.some((name) => params.has(name));
+
+// Read a shared state from query parameters such as
+// ?max=500&algorithm=atkin&speed=150&family=twin,cousin&exclude=sophie-germain&combine=and&step=12&tab=stats,
+// or ?mode=segmented&segment=50 and ?opt=startAtSquare,stopAtRoot&wheel=odd.
+// Missing, malformed or out-of-range values fall back to the defaults, and
+// unknown families are dropped. The step is only bounded below, as the run
+// length is not known until the board is recorded.
+export function parseSharedState(
+  params: URLSearchParams,
+  known: (family: PrimeFamily) => boolean
+): SharedState {
+  const defaults = DEFAULT_SHARED_STATE;
+  const tab = params.get("tab");
+  const mode = params.get("mode") === "segmented" ? "segmented" : "steps";
+  const algorithm =
+    parseAlgorithm(params.get("algorithm")) ?? defaults.algorithm;
+  const flags = params.get("opt")?.split(",") ?? [];
+  return {
+    // Segmented runs always use Eratosthenes
+    maxNumber:
+      parseInteger(
+        params.get("max"),
+        MIN_STEP_LIMIT,
+        mode === "steps" ? maxStepLimit(algorithm) : MAX_STEP_LIMIT
+      ) ?? defaults.maxNumber,
+    mode,
+    algorithm,
+    segmentSize:
+      parseInteger(params.get("segment"), MIN_SEGMENT_SIZE, MAX_SEGMENT_SIZE) ??
+      defaults.segmentSize,
+    optimisations: {
+      startAtSquare: flags.includes("startAtSquare"),
+      stopAtRoot: flags.includes("stopAtRoot"),
+      wheel:
+        WHEELS.find((wheel) => wheel === params.get("wheel")) ??
+        defaults.optimisations.wheel,
+    },
+    speed:
+      parseInteger(params.get("speed"), MIN_SPEED, MAX_SPEED) ?? defaults.speed,
+    familyFilter: {
+      include: parseFamilies(params.get("family"), known),
+      exclude: parseFamilies(params.get("exclude"), known),
+      combinator: params.get("combine") === "and" ? "and" : "or",
+    },
+    step:
+      parseInteger(params.get("step"), 0, Number.MAX_SAFE_INTEGER) ??
+      defaults.step,
+    tab: isTab(tab) ? tab : defaults.tab,
+  };
+}
+
+// Query parameters for a shared state, leaving out anything at its default
+// so links stay short
+export function sharedStateParams(state: SharedState): URLSearchParams {
+  const defaults = DEFAULT_SHARED_STATE;
+  const params = new URLSearchParams();
+  const { include, exclude, combinator } = state.familyFilter;
+
+  if (state.maxNumber !== defaults.maxNumber) {
+    params.set("max", String(state.maxNumber));
+  }
+  if (state.mode !== defaults.mode) params.set("mode", state.mode);
+  if (state.algorithm !== defaults.algorithm) {
+    params.set("algorithm", state.algorithm);
+  }
+  if (state.segmentSize !== defaults.segmentSize) {
+    params.set("segment", String(state.segmentSize));
+  }
+  const flags = OPTIMISATION_FLAGS.filter((flag) => state.optimisations[flag]);
+  if (flags.length > 0) params.set("opt", flags.join(","));
+  if (state.optimisations.wheel !== defaults.optimisations.wheel) {
+    params.set("wheel", state.optimisations.wheel);
+  }
+  if (state.speed !== defaults.speed) params.set("speed", String(state.speed));
+  if (include.length > 0) params.set("family", include.join(","));
+  if (exclude.length > 0) params.set("exclude", exclude.join(","));
+  if (combinator !== defaults.familyFilter.combinator) {
+    params.set("combine", combinator);
+  }
+  if (state.step !== defaults.step) params.set("step", String(state.step));
+  if (state.tab !== defaults.tab) params.set("tab", state.tab);
+  return params;
+}